@@ -0,0 +1,116 @@
+import { RouterEventSubscription } from './events';
+import { QueryParams } from './url-tree';
+
+// Route state at one point in time, as seen by guards and resolvers
+export interface ActivatedRouteSnapshot {
+  params: Record<string, any>; // Raw strings, or typed values from the route paramParsers
+  queryParams: QueryParams;
+  fragment?: string;
+  path: string;
+  data?: Record<string, any>; // Data associated with the route
+}
+
+// Observer accepted by RouteValue; Angular's async pipe passes an object with next()
+export type RouteValueObserver<T> = ((value: T) => void) | { next(value: T): void };
+
+// Holds the current value of a piece of route state and replays it to every new subscriber
+export class RouteValue<T> {
+  private listeners = new Set<(value: T) => void>();
+
+  constructor(private current: T) {}
+
+  get value(): T {
+    return this.current;
+  }
+
+  subscribe(observer: RouteValueObserver<T>): RouterEventSubscription {
+    const listener = typeof observer === 'function' ? observer : (value: T) => observer.next(value);
+    this.listeners.add(listener);
+    listener(this.current);
+    return { unsubscribe: () => this.listeners.delete(listener) };
+  }
+
+  next(value: T): void {
+    this.current = value;
+    for (const listener of [...this.listeners]) {
+      // A failing listener neither stops the others nor the router updating the value
+      try {
+        listener(value);
+      } catch (error) {
+        console.error('A route value listener failed:', error);
+      }
+    }
+  }
+}
+
+// Live route handed to a rendered view; it stays the same object while the view is reused
+export class ActivatedRoute implements ActivatedRouteSnapshot {
+  readonly params$: RouteValue<Record<string, any>>;
+  readonly queryParams$: RouteValue<QueryParams>;
+  readonly fragment$: RouteValue<string | undefined>;
+  readonly data$: RouteValue<Record<string, any>>;
+
+  constructor(public snapshot: ActivatedRouteSnapshot) {
+    this.params$ = new RouteValue(snapshot.params);
+    this.queryParams$ = new RouteValue(snapshot.queryParams);
+    this.fragment$ = new RouteValue(snapshot.fragment);
+    this.data$ = new RouteValue(snapshot.data ?? {});
+  }
+
+  // The snapshot fields stay readable directly on the route
+  get params(): Record<string, any> {
+    return this.snapshot.params;
+  }
+
+  get queryParams(): QueryParams {
+    return this.snapshot.queryParams;
+  }
+
+  get fragment(): string | undefined {
+    return this.snapshot.fragment;
+  }
+
+  get path(): string {
+    return this.snapshot.path;
+  }
+
+  get data(): Record<string, any> | undefined {
+    return this.snapshot.data;
+  }
+
+  // Called by the router when a reused view moves to a new snapshot; only changed streams emit
+  update(snapshot: ActivatedRouteSnapshot): void {
+    const previous = this.snapshot;
+    this.snapshot = snapshot;
+
+    if (!shallowEqual(previous.params, snapshot.params)) {
+      this.params$.next(snapshot.params);
+    }
+    if (!shallowEqual(previous.queryParams, snapshot.queryParams)) {
+      this.queryParams$.next(snapshot.queryParams);
+    }
+    if (previous.fragment !== snapshot.fragment) {
+      this.fragment$.next(snapshot.fragment);
+    }
+    if (!shallowEqual(previous.data ?? {}, snapshot.data ?? {})) {
+      this.data$.next(snapshot.data ?? {});
+    }
+  }
+}
+
+// Compares values key by key; arrays, as held by repeated query params, compare item by item
+function shallowEqual(a: Record<string, any>, b: Record<string, any>): boolean {
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) {
+    return false;
+  }
+
+  return keys.every((key) => {
+    const x = a[key];
+    const y = b[key];
+    if (Array.isArray(x) && Array.isArray(y)) {
+      return x.length === y.length && x.every((item, index) => item === y[index]);
+    }
+    return x instanceof Date && y instanceof Date ? x.getTime() === y.getTime() : x === y;
+  });
+}
@@ -0,0 +1,149 @@
+import {
+  ApplicationRef,
+  ComponentRef,
+  EnvironmentInjector,
+  InjectionToken,
+  Injector,
+  Type,
+  createComponent,
+  createEnvironmentInjector,
+  reflectComponentType,
+} from '@angular/core';
+import { ActivatedRoute } from './activated-route';
+import { findRouterOutlet } from './outlet';
+import { MountedView, RenderContext, RouteError, RouteRenderer } from './renderer';
+import { Route } from './router';
+
+// The failure an errorComponent shows, injectable in the errorComponent and its children
+export const ROUTE_ERROR = new InjectionToken<RouteError>('ROUTE_ERROR');
+
+export interface AngularRendererOptions {
+  bindToComponentInputs?: boolean; // Set params, query params and data on matching component inputs
+}
+
+// An Angular component mounted for a route level
+export interface AngularView extends MountedView {
+  componentRef: ComponentRef<any>;
+}
+
+// Renders standalone Angular components; route providers get an environment injector scoped to their subtree
+export class AngularRenderer implements RouteRenderer<Type<any>, AngularView> {
+  private reportedInputCollisions = new Set<string>();
+
+  constructor(
+    private appRef: ApplicationRef,
+    private injector: Injector,
+    private environmentInjector: EnvironmentInjector,
+    private options: AngularRendererOptions = {}
+  ) {}
+
+  supports(component: unknown): component is Type<any> {
+    return typeof component === 'function' && reflectComponentType(component as Type<any>) !== null;
+  }
+
+  mount(component: Type<any>, context: RenderContext, error?: RouteError): AngularView {
+    const activatedRoute = context.activatedRoute;
+
+    // Create the component dynamically; it and its children can inject their ActivatedRoute
+    const componentRef = createComponent(component, {
+      environmentInjector: (context.scope as EnvironmentInjector | undefined) ?? this.environmentInjector,
+      elementInjector: Injector.create({
+        providers: [
+          { provide: ActivatedRoute, useValue: activatedRoute },
+          ...(error ? [{ provide: ROUTE_ERROR, useValue: error }] : []),
+        ],
+        parent: this.injector,
+      }),
+    });
+
+    // Pass the live ActivatedRoute to components declaring a routeData property, and the failure to routeError
+    if ('routeData' in componentRef.instance) {
+      componentRef.instance.routeData = activatedRoute;
+    }
+    if (error && 'routeError' in componentRef.instance) {
+      componentRef.instance.routeError = error;
+    }
+    this._bindComponentInputs(componentRef, activatedRoute);
+
+    // Attach to change detection so the template, including any child outlet, is rendered
+    this.appRef.attachView(componentRef.hostView);
+    componentRef.changeDetectorRef.detectChanges();
+
+    const hostElement: HTMLElement = componentRef.location.nativeElement;
+    context.outlet?.replaceChildren(hostElement);
+
+    return {
+      nodes: [hostElement],
+      outlet: findRouterOutlet(hostElement, componentRef.instance),
+      instance: componentRef.instance,
+      componentRef,
+    };
+  }
+
+  update(view: AngularView, context: RenderContext): void {
+    this._bindComponentInputs(view.componentRef, context.activatedRoute);
+  }
+
+  unmount(view: AngularView): void {
+    this.appRef.detachView(view.componentRef.hostView);
+    view.componentRef.destroy();
+    view.nodes.forEach((node) => node.parentNode?.removeChild(node));
+  }
+
+  error(error: RouteError, component: Type<any>, context: RenderContext): AngularView {
+    return this.mount(component, context, error);
+  }
+
+  // Routes with providers, and lazy routes, scope an environment injector to their subtree
+  createScope(route: Route, parent: EnvironmentInjector | undefined): EnvironmentInjector | undefined {
+    if (!route.providers && !route.loadChildren) {
+      return parent;
+    }
+    return createEnvironmentInjector(route.providers ?? [], parent ?? this.environmentInjector, `Route ${route.path}`);
+  }
+
+  destroyScope(scope: EnvironmentInjector): void {
+    scope.destroy(); // Tear down the services scoped to the subtree being left
+  }
+
+  // Set query params, params and resolved data on the component inputs they name; later sources win
+  private _bindComponentInputs(componentRef: ComponentRef<any>, route: ActivatedRoute): void {
+    if (!this.options.bindToComponentInputs) {
+      return;
+    }
+
+    const mirror = reflectComponentType(componentRef.componentType);
+    if (!mirror) {
+      return;
+    }
+
+    const sources: [string, Record<string, any>][] = [
+      ['queryParams', route.queryParams],
+      ['params', route.params],
+      ['data', route.data ?? {}],
+    ];
+
+    for (const { templateName } of mirror.inputs) {
+      // routeData always receives the ActivatedRoute itself, routeError the failure
+      if (templateName === 'routeData' || templateName === 'routeError') {
+        continue;
+      }
+
+      const providers = sources.filter(([, values]) => templateName in values);
+
+      // Report each colliding input once per component
+      const collision = `${mirror.selector}:${templateName}`;
+      if (providers.length > 1 && !this.reportedInputCollisions.has(collision)) {
+        this.reportedInputCollisions.add(collision);
+        const names = providers.map(([name]) => name);
+        console.warn(
+          `Input "${templateName}" of ${mirror.selector} is provided by ${names.join(', ')}; using ${names[names.length - 1]}.`
+        );
+      }
+
+      // Inputs the route does not provide are reset, so a reused component never keeps stale values
+      const provider = providers[providers.length - 1];
+      componentRef.setInput(templateName, provider ? provider[1][templateName] : undefined);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+// Why a navigation was cancelled
+export type NavigationCancellationCode = 'GuardRejected' | 'Redirect' | 'SupersededByNewNavigation' | 'Aborted';
+
+// What started a navigation
+export type NavigationTrigger = 'imperative' | 'popstate';
+
+export class NavigationStart {
+  readonly type = 'NavigationStart';
+  constructor(public readonly id: number, public readonly url: string, public readonly trigger: NavigationTrigger) {}
+}
+
+export class GuardsCheckStart {
+  readonly type = 'GuardsCheckStart';
+  constructor(public readonly id: number, public readonly url: string) {}
+}
+
+export class GuardsCheckEnd {
+  readonly type = 'GuardsCheckEnd';
+  constructor(public readonly id: number, public readonly url: string, public readonly shouldActivate: boolean) {}
+}
+
+export class ResolveStart {
+  readonly type = 'ResolveStart';
+  constructor(public readonly id: number, public readonly url: string) {}
+}
+
+export class ResolveEnd {
+  readonly type = 'ResolveEnd';
+  constructor(public readonly id: number, public readonly url: string) {}
+}
+
+export class NavigationEnd {
+  readonly type = 'NavigationEnd';
+  constructor(public readonly id: number, public readonly url: string) {}
+}
+
+export class NavigationCancel {
+  readonly type = 'NavigationCancel';
+  constructor(
+    public readonly id: number,
+    public readonly url: string,
+    public readonly reason: string,
+    public readonly code: NavigationCancellationCode
+  ) {}
+}
+
+export class NavigationError {
+  readonly type = 'NavigationError';
+  constructor(public readonly id: number, public readonly url: string, public readonly error: unknown) {}
+}
+
+// A navigation ended on a notFoundComponent, or on an empty outlet when none is configured
+export class NavigationNotFound {
+  readonly type = 'NavigationNotFound';
+  constructor(public readonly id: number, public readonly url: string) {}
+}
+
+export type RouterEvent =
+  | NavigationStart
+  | GuardsCheckStart
+  | GuardsCheckEnd
+  | ResolveStart
+  | ResolveEnd
+  | NavigationEnd
+  | NavigationCancel
+  | NavigationError
+  | NavigationNotFound;
+
+// Event type name to event class, used by the addEventListener flavour
+export type RouterEventMap = { [E in RouterEvent as E['type']]: E };
+
+export interface RouterEventSubscription {
+  unsubscribe(): void;
+}
+
+// Minimal multicast stream of router events
+export class RouterEvents {
+  private listeners = new Set<(event: RouterEvent) => void>();
+
+  subscribe(listener: (event: RouterEvent) => void): RouterEventSubscription {
+    this.listeners.add(listener);
+    return { unsubscribe: () => this.listeners.delete(listener) };
+  }
+
+  emit(event: RouterEvent): void {
+    // Copy so listeners may unsubscribe while being notified
+    for (const listener of [...this.listeners]) {
+      // A failing listener neither stops the others nor the navigation emitting the event
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`A ${event.type} listener failed:`, error);
+      }
+    }
+  }
+}
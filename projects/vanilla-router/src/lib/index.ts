@@ -1 +1,15 @@
 export * from './router';
+export * from './activated-route';
+export * from './angular-renderer';
+export * from './events';
+export * from './location';
+export * from './outlet';
+export * from './preloading';
+export * from './providers';
+export * from './renderer';
+export * from './scroll';
+export * from './transitions';
+export * from './url-tree';
+export * from './vanilla-link.directive';
+export * from './vanilla-outlet.component';
+export type { ParamParser } from './match';
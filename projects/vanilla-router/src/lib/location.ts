@@ -0,0 +1,180 @@
+// Every read and write of the URL goes through a location strategy
+export interface LocationStrategy {
+  path(): string | null; // Current router URL, path plus query string and fragment; null when outside the base
+  state(): any; // State stored with the current history entry
+  pushState(state: any, url: string): void;
+  replaceState(state: any, url: string): void;
+  go(delta: number): void;
+  onPopState(listener: (state: any) => void): () => void; // Returns a function removing the listener
+  prepareExternalUrl(url: string): string; // Turn a router URL into an href
+  stripBaseHref(href: string): string | null; // Turn an href into a router URL, null when it is outside the base
+}
+
+// Path of the document <base href>, if there is one
+function documentBaseHref(): string {
+  const href = document.querySelector('base')?.getAttribute('href');
+  return href ? new URL(href, window.location.href).pathname : '';
+}
+
+// Routes on the path of the browser URL, e.g. /users/42, below an optional base href such as /portal/app1
+export class PathLocationStrategy implements LocationStrategy {
+  private resolvedBaseHref: string | null = null;
+
+  // Defaults to the document <base href>, read on first use so the strategy can be built on the server
+  constructor(private configuredBaseHref?: string) {}
+
+  // Stored without the trailing slash
+  private get baseHref(): string {
+    this.resolvedBaseHref ??= (this.configuredBaseHref ?? documentBaseHref()).replace(/\/+$/, '');
+    return this.resolvedBaseHref;
+  }
+
+  // URLs outside the base href belong to another app, e.g. a sibling micro-frontend
+  path(): string | null {
+    const path = this.stripBaseHref(window.location.pathname);
+    return path === null ? null : path + window.location.search + window.location.hash;
+  }
+
+  state(): any {
+    return window.history.state;
+  }
+
+  pushState(state: any, url: string): void {
+    window.history.pushState(state, '', this.prepareExternalUrl(url));
+  }
+
+  replaceState(state: any, url: string): void {
+    window.history.replaceState(state, '', this.prepareExternalUrl(url));
+  }
+
+  go(delta: number): void {
+    window.history.go(delta);
+  }
+
+  onPopState(listener: (state: any) => void): () => void {
+    const handler = (e: PopStateEvent) => listener(e.state);
+    window.addEventListener('popstate', handler);
+    return () => window.removeEventListener('popstate', handler);
+  }
+
+  prepareExternalUrl(url: string): string {
+    return this.baseHref + url;
+  }
+
+  stripBaseHref(href: string): string | null {
+    if (!this.baseHref) {
+      return href;
+    }
+    if (!href.startsWith(this.baseHref)) {
+      return null;
+    }
+
+    // /portal/app10 is not inside /portal/app1
+    const rest = href.slice(this.baseHref.length);
+    if (rest && !/^[/?#]/.test(rest)) {
+      return null;
+    }
+    return rest.startsWith('/') ? rest : `/${rest}`;
+  }
+}
+
+// Routes on the fragment of the browser URL, e.g. /#/users/42, for hosts without rewrite rules
+export class HashLocationStrategy implements LocationStrategy {
+  path(): string {
+    const path = window.location.hash.slice(1);
+    return path.startsWith('/') ? path : `/${path}`;
+  }
+
+  state(): any {
+    return window.history.state;
+  }
+
+  pushState(state: any, url: string): void {
+    window.history.pushState(state, '', this.prepareExternalUrl(url));
+  }
+
+  replaceState(state: any, url: string): void {
+    window.history.replaceState(state, '', this.prepareExternalUrl(url));
+  }
+
+  go(delta: number): void {
+    window.history.go(delta);
+  }
+
+  onPopState(listener: (state: any) => void): () => void {
+    // Editing the fragment by hand also fires popstate
+    const handler = (e: PopStateEvent) => listener(e.state);
+    window.addEventListener('popstate', handler);
+    return () => window.removeEventListener('popstate', handler);
+  }
+
+  prepareExternalUrl(url: string): string {
+    return `#${url}`;
+  }
+
+  stripBaseHref(href: string): string | null {
+    return href;
+  }
+}
+
+// In-memory history with its own back/forward stack, for tests and environments without a browser URL
+export class MemoryHistory implements LocationStrategy {
+  private entries: { url: string; state: any }[];
+  private index = 0;
+  private listeners = new Set<(state: any) => void>();
+
+  constructor(initialUrl: string = '/') {
+    this.entries = [{ url: initialUrl, state: null }];
+  }
+
+  path(): string {
+    return this.entries[this.index].url;
+  }
+
+  state(): any {
+    return this.entries[this.index].state;
+  }
+
+  pushState(state: any, url: string): void {
+    // Pushing drops every entry ahead of the current one, like the browser does
+    this.entries.splice(this.index + 1, this.entries.length, { url, state });
+    this.index++;
+  }
+
+  replaceState(state: any, url: string): void {
+    this.entries[this.index] = { url, state };
+  }
+
+  go(delta: number): void {
+    const index = this.index + delta;
+    if (delta === 0 || index < 0 || index >= this.entries.length) {
+      return;
+    }
+
+    this.index = index;
+    const state = this.state();
+    // Notify asynchronously, as popstate is
+    queueMicrotask(() => this.listeners.forEach((listener) => listener(state)));
+  }
+
+  back(): void {
+    this.go(-1);
+  }
+
+  forward(): void {
+    this.go(1);
+  }
+
+  onPopState(listener: (state: any) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  prepareExternalUrl(url: string): string {
+    return url;
+  }
+
+  stripBaseHref(href: string): string | null {
+    return href;
+  }
+}
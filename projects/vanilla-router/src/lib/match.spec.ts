@@ -0,0 +1,117 @@
+import { MatchableRoute, RouteMatcher, isSameMatch } from './match';
+
+interface TestRoute extends MatchableRoute<TestRoute> {
+  lazy?: boolean;
+}
+
+// Paths of the matched chain, or null
+function matchPaths(routes: TestRoute[], url: string): string[] | null {
+  return new RouteMatcher(routes).match(url)?.map((match) => match.route.path) ?? null;
+}
+
+describe('RouteMatcher', () => {
+  it('prefers static segments over params, whatever the declaration order', () => {
+    const routes: TestRoute[] = [{ path: 'users/:id' }, { path: 'users/new' }];
+
+    expect(matchPaths(routes, '/users/new')).toEqual(['users/new']);
+    expect(matchPaths(routes, '/users/42')).toEqual(['users/:id']);
+  });
+
+  it('ranks wildcards last', () => {
+    const routes: TestRoute[] = [{ path: '*' }, { path: 'about' }];
+
+    expect(matchPaths(routes, '/about')).toEqual(['about']);
+    expect(matchPaths(routes, '/anything/else')).toEqual(['*']);
+  });
+
+  it('matches nested routes and accumulates params down the chain', () => {
+    const routes: TestRoute[] = [{ path: 'teams/:team', children: [{ path: 'members/:member' }] }];
+    const chain = new RouteMatcher(routes).match('/teams/red/members/7')!;
+
+    expect(chain.map((match) => match.route.path)).toEqual(['teams/:team', 'members/:member']);
+    expect(chain[1].params).toEqual({ team: 'red', member: '7' });
+    expect(chain[1].segments).toEqual(['members', '7']);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(matchPaths([{ path: 'about' }], '/contact')).toBeNull();
+  });
+
+  it('honours pathMatch full for empty paths', () => {
+    const routes: TestRoute[] = [{ path: '', pathMatch: 'full' }, { path: 'docs' }];
+
+    expect(matchPaths(routes, '/')).toEqual(['']);
+    expect(matchPaths(routes, '/docs')).toEqual(['docs']);
+  });
+
+  it('supports optional, repeatable and constrained params', () => {
+    const routes: TestRoute[] = [{ path: 'page/:n(\\d+)' }, { path: 'files/:path+' }, { path: 'archive/:year?' }];
+    const matcher = new RouteMatcher(routes);
+
+    expect(matcher.match('/page/3')![0].params).toEqual({ n: '3' });
+    expect(matcher.match('/page/x')).toBeNull();
+    expect(matcher.match('/files/a/b/c')![0].params).toEqual({ path: 'a/b/c' });
+    expect(matcher.match('/archive')![0].params).toEqual({});
+    expect(matcher.match('/archive/2020')![0].params).toEqual({ year: '2020' });
+  });
+
+  it('parses typed params and falls through when a parser rejects the value', () => {
+    const toNumber = (value: string) => {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        throw new Error('Not a number');
+      }
+      return number;
+    };
+    const routes: TestRoute[] = [{ path: 'items/:id', paramParsers: { id: toNumber } }, { path: 'items/:slug' }];
+    const matcher = new RouteMatcher(routes);
+
+    expect(matcher.match('/items/12')![0].params).toEqual({ id: 12 });
+    expect(matcher.match('/items/shoes')![0].params).toEqual({ slug: 'shoes' });
+  });
+
+  it('decodes params before testing constraints and calling parsers', () => {
+    const parser = jasmine.createSpy('parser').and.callFake((value: string) => value.toUpperCase());
+    const routes: TestRoute[] = [
+      { path: 'users/:name', paramParsers: { name: parser } },
+      { path: 'tags/:tag([a-z ]+)' },
+      { path: 'files/:path+' },
+    ];
+    const matcher = new RouteMatcher(routes);
+
+    expect(matcher.match('/users/J%C3%BCrgen')![0].params).toEqual({ name: 'JÜRGEN' });
+    expect(parser).toHaveBeenCalledWith('Jürgen');
+    expect(matcher.match('/tags/a%20b')![0].params).toEqual({ tag: 'a b' });
+    expect(matcher.match('/tags/a%2Db')).toBeNull();
+    expect(matcher.match('/files/a%20b/c')![0].params).toEqual({ path: 'a b/c' });
+    expect(matcher.match('/users/%E0%A4%A')![0].params).toEqual({ name: '%E0%A4%A' });
+  });
+
+  it('matches prefix routes with the rest of the URL as remainder', () => {
+    const routes: TestRoute[] = [{ path: 'admin', lazy: true }, { path: 'old', redirectTo: '/new' }];
+    const matcher = new RouteMatcher(routes, (route) => !!route.lazy);
+
+    expect(matcher.match('/admin/users/1')![0].remainder).toBe('/users/1');
+    expect(matcher.match('/admin')![0].remainder).toBeUndefined();
+    expect(matcher.match('/old/page')![0].remainder).toBe('/page');
+  });
+
+  it('prefers matching children over the remainder of a prefix route', () => {
+    const routes: TestRoute[] = [{ path: 'admin', lazy: true, children: [{ path: 'users' }] }];
+    const matcher = new RouteMatcher(routes, (route) => !!route.lazy);
+
+    expect(matcher.match('/admin/users')!.map((match) => match.route.path)).toEqual(['admin', 'users']);
+    expect(matcher.match('/admin/other')![0].remainder).toBe('/other');
+  });
+});
+
+describe('isSameMatch', () => {
+  it('compares route and consumed segments, not params', () => {
+    const route: TestRoute = { path: 'users/:id' };
+    const first = { route, params: { id: '1' }, segments: ['users', '1'] };
+
+    expect(isSameMatch(first, { route, params: { id: 1 }, segments: ['users', '1'] })).toBeTrue();
+    expect(isSameMatch(first, { route, params: { id: '2' }, segments: ['users', '2'] })).toBeFalse();
+    expect(isSameMatch(undefined, { route, params: {}, segments: [] })).toBeFalse();
+  });
+});
@@ -0,0 +1,238 @@
+// Minimal shape shared by the route definitions of every router variant
+export interface MatchableRoute<R> {
+  path: string;
+  pathMatch?: 'full' | 'prefix';
+  redirectTo?: string;
+  children?: R[];
+  paramParsers?: Record<string, ParamParser>;
+}
+
+// Turns the raw string of a path param into a typed value; throwing rejects the match
+export type ParamParser = (value: string) => any;
+
+// One level of a matched route chain, from the root route down to the leaf
+export interface RouteMatch<R> {
+  route: R;
+  params: Record<string, any>; // Params accumulated from the root down to this level
+  segments: string[]; // URL segments consumed by this level
+  remainder?: string; // URL left over below a prefix redirect or prefix route, e.g. a lazy route matched again once its children load
+}
+
+// Two chains render the same view at a level when route and consumed segments are equal
+export function isSameMatch<R>(a: RouteMatch<R> | undefined, b: RouteMatch<R> | undefined): boolean {
+  return !!a && !!b && a.route === b.route && a.segments.join('/') === b.segments.join('/');
+}
+
+// Segment ranks: static segments beat params, params beat the end of a path, which beats wildcards
+const STATIC_RANK = 7;
+const CONSTRAINED_PARAM_RANK = 6;
+const PARAM_RANK = 5;
+const OPTIONAL_PARAM_RANK = 4;
+const END_RANK = 3;
+const ONE_OR_MORE_RANK = 2;
+const WILDCARD_RANK = 1;
+
+// :name, optionally followed by a (regex) constraint and a ?, + or * modifier
+const PARAM_PATTERN = /^:(\w+)(?:\((.+)\))?([?+*])?$/;
+
+// A root-to-leaf route chain compiled into a single anchored RegExp
+interface CompiledChain<R> {
+  routes: R[];
+  regex: RegExp;
+  levels: { group: number; params: { name: string; group: number; constraint?: RegExp; parser?: ParamParser }[] }[];
+  remainderGroup: number | null;
+  score: number[];
+  order: number; // Declaration order, breaks ties between equally specific chains
+}
+
+// Compiles a route tree once into chains ranked by specificity
+export class RouteMatcher<R extends MatchableRoute<R>> {
+  private chains: CompiledChain<R>[] = [];
+
+  // isPrefix marks routes that, like prefix redirects, match every URL below them, e.g. lazy routes whose children load later
+  constructor(routes: R[], private isPrefix: (route: R) => boolean = () => false) {
+    this._flatten(routes, []);
+    this.chains.sort((a, b) => compareScores(b.score, a.score) || a.order - b.order);
+  }
+
+  // Match a pathname and return the chain of matched routes, from the root down to the leaf
+  match(pathname: string): RouteMatch<R>[] | null {
+    const normalized = pathname
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => `/${segment}`)
+      .join('');
+
+    for (const chain of this.chains) {
+      const result = chain.regex.exec(normalized);
+      if (!result) {
+        continue;
+      }
+
+      const matches = this._extractParams(chain, result);
+      if (!matches) {
+        // A param parser rejected the value, fall through to the next route
+        continue;
+      }
+
+      if (chain.remainderGroup !== null && result[chain.remainderGroup]) {
+        matches[matches.length - 1] = { ...matches[matches.length - 1], remainder: result[chain.remainderGroup] };
+      }
+      return matches;
+    }
+
+    return null;
+  }
+
+  private _extractParams(chain: CompiledChain<R>, result: RegExpExecArray): RouteMatch<R>[] | null {
+    let params: Record<string, any> = {};
+    const matches: RouteMatch<R>[] = [];
+
+    for (let index = 0; index < chain.routes.length; index++) {
+      const level = chain.levels[index];
+      params = { ...params };
+
+      for (const param of level.params) {
+        const raw = result[param.group];
+        if (raw === undefined) {
+          continue; // Optional param left out
+        }
+
+        // Repeatable params capture their segments with the leading slash; constraints and parsers see decoded values
+        const captured = raw.startsWith('/') ? raw.slice(1) : raw;
+        const segments = captured ? captured.split('/').map(decodeSegment) : [];
+        if (param.constraint && !segments.every((segment) => param.constraint!.test(segment))) {
+          return null;
+        }
+
+        const value = segments.join('/');
+        try {
+          params[param.name] = param.parser ? param.parser(value) : value;
+        } catch {
+          return null;
+        }
+      }
+
+      matches.push({ route: chain.routes[index], params, segments: (result[level.group] || '').split('/').filter(Boolean) });
+    }
+
+    return matches;
+  }
+
+  // Emit one chain per route that can end a match; children come first so deeper chains win ties
+  private _flatten(routes: R[], parents: R[]): void {
+    for (const route of routes) {
+      const chainRoutes = [...parents, route];
+
+      if (route.children) {
+        // A full match leaves nothing for the children but empty paths
+        const children = route.pathMatch === 'full'
+          ? route.children.filter((child) => !child.path.split('/').some(Boolean))
+          : route.children;
+        this._flatten(children, chainRoutes);
+      }
+
+      this.chains.push(this._compile(chainRoutes));
+    }
+  }
+
+  private _compile(routes: R[]): CompiledChain<R> {
+    const leaf = routes[routes.length - 1];
+    const levels: CompiledChain<R>['levels'] = [];
+    const score: number[] = [];
+    let source = '';
+    let group = 0;
+
+    for (const route of routes) {
+      const level: CompiledChain<R>['levels'][number] = { group: ++group, params: [] };
+      let levelSource = '';
+
+      for (const segment of route.path.split('/').filter(Boolean)) {
+        const param = PARAM_PATTERN.exec(segment);
+        if (segment === '*') {
+          levelSource += '(?:/[^/]+)*';
+          score.push(WILDCARD_RANK);
+        } else if (param) {
+          const [, name, constraint, modifier] = param;
+          level.params.push({
+            name,
+            group: ++group,
+            constraint: constraint ? new RegExp(`^(?:${constraint})$`) : undefined,
+            parser: route.paramParsers?.[name],
+          });
+          levelSource += compileParam(modifier);
+          score.push(
+            modifier === '*' ? WILDCARD_RANK
+              : modifier === '+' ? ONE_OR_MORE_RANK
+              : modifier === '?' ? OPTIONAL_PARAM_RANK
+              : constraint ? CONSTRAINED_PARAM_RANK
+              : PARAM_RANK
+          );
+        } else {
+          levelSource += `/${escapeRegExp(segment)}`;
+          score.push(STATIC_RANK);
+        }
+      }
+
+      source += `(${levelSource})`;
+      levels.push(level);
+    }
+
+    // A prefix redirect or prefix route also matches every URL below its path
+    let remainderGroup: number | null = null;
+    if ((leaf.redirectTo !== undefined || this.isPrefix(leaf)) && leaf.pathMatch !== 'full') {
+      remainderGroup = ++group;
+      source += '((?:/[^/]+)*)';
+      score.push(WILDCARD_RANK);
+    }
+
+    return {
+      routes,
+      regex: new RegExp(`^${source}$`),
+      levels,
+      remainderGroup,
+      score,
+      order: this.chains.length,
+    };
+  }
+}
+
+// Compare scores segment by segment; a shorter score is padded with the end-of-path rank
+function compareScores(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? END_RANK) - (b[i] ?? END_RANK);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+// Regex source for a param segment, capturing its still encoded value; constraints are tested once it is decoded
+function compileParam(modifier: string | undefined): string {
+  const segment = '[^/]+';
+
+  switch (modifier) {
+    case '?':
+      return `(?:/(${segment}))?`;
+    case '+':
+      return `((?:/(?:${segment}))+)`;
+    case '*':
+      return `((?:/(?:${segment}))*)`;
+    default:
+      return `/(${segment})`;
+  }
+}
+
+// Browser paths are percent-encoded; malformed escapes are kept as they are
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
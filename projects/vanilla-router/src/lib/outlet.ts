@@ -0,0 +1,27 @@
+// Attribute marking the element a parent view renders its child route into
+export const ROUTER_OUTLET_ATTRIBUTE = 'router-outlet';
+
+// Name of the outlet routes without an outlet render into
+export const PRIMARY_OUTLET = 'primary';
+
+// A parent view may also expose its child outlet explicitly
+export interface RouterOutletHost {
+  routerOutlet?: HTMLElement | { nativeElement: HTMLElement } | null;
+}
+
+// Locate the child outlet of a rendered view, falling back to the outlet attribute
+export function findRouterOutlet(host: Node, instance?: RouterOutletHost | null): HTMLElement | null {
+  const explicit = instance?.routerOutlet;
+  if (explicit) {
+    return explicit instanceof HTMLElement ? explicit : explicit.nativeElement;
+  }
+
+  if (host instanceof Element) {
+    if (host.hasAttribute(ROUTER_OUTLET_ATTRIBUTE)) {
+      return host as HTMLElement;
+    }
+    return host.querySelector<HTMLElement>(`[${ROUTER_OUTLET_ATTRIBUTE}]`);
+  }
+
+  return null;
+}
@@ -0,0 +1,161 @@
+import type { Route } from './router';
+
+// Decides which lazy routes load ahead of navigation
+export interface PreloadingStrategy {
+  // Called for every lazy route after each navigation; call load() to preload the route
+  preload(route: Route, load: () => Promise<void>): Promise<void> | void;
+  linkTrigger?: 'hover' | 'viewport'; // Also preload the route of a link once it is hovered or scrolled into view
+}
+
+// Only data.preload: true routes are preloaded
+export class NoPreloading implements PreloadingStrategy {
+  preload(): void {}
+}
+
+// Every lazy route is preloaded, except data.preload: false routes
+export class PreloadAllModules implements PreloadingStrategy {
+  preload(route: Route, load: () => Promise<void>): Promise<void> {
+    return load();
+  }
+}
+
+// Routes preload once a link to them is hovered or focused
+export class PreloadOnHover implements PreloadingStrategy {
+  readonly linkTrigger = 'hover';
+
+  preload(): void {}
+}
+
+// Routes preload once a link to them scrolls into view
+export class PreloadOnViewport implements PreloadingStrategy {
+  readonly linkTrigger = 'viewport';
+
+  preload(): void {}
+}
+
+// What the preloader needs from the router
+export interface RoutePreloaderHost {
+  loadRoute(route: Route): Promise<Route[]>; // Load the component and children of a route, resolving to its children
+  linkUrl(link: HTMLAnchorElement): string | null; // Router URL of a link the router intercepts, null otherwise
+  preloadUrl(url: string): Promise<void>; // Load the lazy routes a URL leads to
+}
+
+// Runs a preloading strategy over the route tree and over the links on the page
+export class RoutePreloader {
+  private linksSeen = new WeakSet<HTMLAnchorElement>();
+  private intersectionObserver: IntersectionObserver | null = null;
+  private mutationObserver: MutationObserver | null = null;
+
+  constructor(private strategy: PreloadingStrategy, private host: RoutePreloaderHost) {
+    this._handleHover = this._handleHover.bind(this);
+  }
+
+  // Walk the route tree, descending into lazy children once they are loaded
+  async preloadRoutes(routes: Route[]): Promise<void> {
+    await Promise.all(routes.map((route) => this._preloadRoute(route)));
+  }
+
+  // Start preloading the routes of links, when the strategy asks for it
+  observeLinks(): void {
+    // Without a document, e.g. in a worker, there are no links
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    if (this.strategy.linkTrigger === 'hover') {
+      document.addEventListener('mouseover', this._handleHover);
+      document.addEventListener('focusin', this._handleHover);
+    } else if (this.strategy.linkTrigger === 'viewport' && typeof IntersectionObserver !== 'undefined') {
+      this.intersectionObserver = new IntersectionObserver((entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) {
+            this.intersectionObserver?.unobserve(entry.target);
+            this._preloadLink(entry.target as HTMLAnchorElement);
+          }
+        }
+      });
+
+      // Links rendered later, e.g. by routed views, are picked up as they are added
+      this._observeAnchors(document.body);
+      this.mutationObserver = new MutationObserver((records) => {
+        records.forEach((record) => record.addedNodes.forEach((node) => this._observeAnchors(node)));
+      });
+      this.mutationObserver.observe(document.body, { childList: true, subtree: true });
+    }
+  }
+
+  disconnect(): void {
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('mouseover', this._handleHover);
+      document.removeEventListener('focusin', this._handleHover);
+    }
+    this.intersectionObserver?.disconnect();
+    this.mutationObserver?.disconnect();
+    this.intersectionObserver = null;
+    this.mutationObserver = null;
+  }
+
+  // Routes with canLoad guards are never preloaded; their guards run when they are navigated to
+  private async _preloadRoute(route: Route): Promise<void> {
+    if (route.canLoad || route.data?.['preload'] === false) {
+      return;
+    }
+
+    if (route.children) {
+      await this.preloadRoutes(route.children);
+    }
+    if (!route.loadComponent && !route.loadChildren) {
+      return;
+    }
+
+    const load = async () => {
+      try {
+        await this.preloadRoutes(await this.host.loadRoute(route));
+      } catch {
+        // A failed preload is retried by the navigation that needs the route
+      }
+    };
+
+    if (route.data?.['preload'] === true) {
+      await load();
+      return;
+    }
+
+    // preloadRoutes runs unawaited after every navigation, so a failing strategy must not reject it
+    try {
+      await this.strategy.preload(route, load);
+    } catch (error) {
+      console.error(`Preloading route '${route.path}' failed:`, error);
+    }
+  }
+
+  private _handleHover(e: Event): void {
+    const link = (e.target as HTMLElement | null)?.closest?.('a');
+    if (link) {
+      this._preloadLink(link);
+    }
+  }
+
+  private _observeAnchors(node: Node): void {
+    if (!(node instanceof Element)) {
+      return;
+    }
+    const anchors = node instanceof HTMLAnchorElement ? [node] : [...node.querySelectorAll('a')];
+    anchors.forEach((anchor) => this.intersectionObserver?.observe(anchor));
+  }
+
+  // Each link preloads once
+  private _preloadLink(link: HTMLAnchorElement): void {
+    if (this.linksSeen.has(link)) {
+      return;
+    }
+    this.linksSeen.add(link);
+
+    const url = this.host.linkUrl(link);
+    if (url !== null) {
+      this.host.preloadUrl(url).catch(() => {
+        // A failed preload is retried by the navigation that needs the route
+      });
+    }
+  }
+}
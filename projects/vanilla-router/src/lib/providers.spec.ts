@@ -0,0 +1,67 @@
+import { DOCUMENT, PlatformLocation } from '@angular/common';
+import { PLATFORM_ID, RESPONSE_INIT } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideVanillaRouter } from './providers';
+import { MountedView, RouteRenderer } from './renderer';
+import { Router } from './router';
+
+// Renders components given by name, without touching the DOM
+class NameRenderer implements RouteRenderer<string> {
+  mounted: string[] = [];
+
+  supports(component: unknown): component is string {
+    return typeof component === 'string';
+  }
+
+  mount(name: string): MountedView {
+    this.mounted.push(name);
+    return { nodes: [], outlet: null, instance: null };
+  }
+
+  update(): void {}
+
+  unmount(): void {}
+
+  error(error: unknown, name: string): MountedView {
+    return this.mount(name);
+  }
+}
+
+describe('provideVanillaRouter', () => {
+  it('renders the requested URL on the server and answers a not-found page with a 404 status', async () => {
+    const renderer = new NameRenderer();
+    const responseInit: ResponseInit = {};
+    // The server platform provides its own document, and no window or document globals
+    const serverDocument = jasmine.createSpyObj<Document>('Document', ['getElementById', 'addEventListener', 'removeEventListener']);
+    const requestLocation: Partial<PlatformLocation> = {
+      pathname: '/app/missing',
+      search: '?q=1',
+      hash: '',
+      getBaseHrefFromDOM: () => '/app/',
+    };
+    TestBed.configureTestingModule({
+      providers: [
+        provideVanillaRouter({
+          routes: [{ path: 'home', component: 'home' }],
+          rootElement: null,
+          notFoundComponent: 'not-found',
+          renderers: [renderer],
+        }),
+        { provide: PLATFORM_ID, useValue: 'server' },
+        { provide: DOCUMENT, useValue: serverDocument },
+        { provide: PlatformLocation, useValue: requestLocation },
+        { provide: RESPONSE_INIT, useValue: responseInit },
+      ],
+    });
+
+    // The initial navigation starts with the app initializers
+    const router = TestBed.inject(Router);
+    const result = await router.start();
+
+    expect(result?.status).toBe('succeeded');
+    expect(router.currentPath).toBe('/missing');
+    expect(router.currentQuery['q']).toBe('1');
+    expect(renderer.mounted).toEqual(['not-found']);
+    expect(responseInit.status).toBe(404);
+  });
+});
@@ -0,0 +1,66 @@
+import { DOCUMENT, PlatformLocation, isPlatformServer } from '@angular/common';
+import {
+  ApplicationRef,
+  DestroyRef,
+  EnvironmentInjector,
+  EnvironmentProviders,
+  InjectionToken,
+  Injector,
+  PLATFORM_ID,
+  RESPONSE_INIT,
+  inject,
+  makeEnvironmentProviders,
+  provideAppInitializer,
+} from '@angular/core';
+import { AngularRenderer, AngularRendererOptions } from './angular-renderer';
+import { LocationStrategy, MemoryHistory, PathLocationStrategy } from './location';
+import { Router, RouterConfig } from './router';
+
+// Router configuration plus the options of the Angular renderer
+export interface AngularRouterConfig extends RouterConfig, AngularRendererOptions {}
+
+export const ROUTER_CONFIG = new InjectionToken<AngularRouterConfig>('ROUTER_CONFIG');
+
+// Provide the Router to an application, e.g. bootstrapApplication(App, { providers: [provideVanillaRouter({ routes })] })
+export function provideVanillaRouter(config: AngularRouterConfig): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    { provide: ROUTER_CONFIG, useValue: config },
+    {
+      provide: Router,
+      useFactory: () => {
+        const routerConfig = inject(ROUTER_CONFIG);
+        const renderer = new AngularRenderer(inject(ApplicationRef), inject(Injector), inject(EnvironmentInjector), {
+          bindToComponentInputs: routerConfig.bindToComponentInputs,
+        });
+        // Angular components go first; other renderers still handle vanilla and Web Component routes
+        const router = new Router({
+          document: inject(DOCUMENT),
+          ...routerConfig,
+          location: routerConfig.location ?? (isPlatformServer(inject(PLATFORM_ID)) ? serverLocation(routerConfig.baseHref) : undefined),
+          renderers: [renderer, ...(routerConfig.renderers ?? [])],
+        });
+        inject(DestroyRef).onDestroy(() => router.destroy());
+
+        // On the server, a not-found page is answered with its status
+        const responseInit = inject(RESPONSE_INIT, { optional: true });
+        if (responseInit) {
+          router.responseStatus.subscribe((status) => (responseInit.status = status));
+        }
+        return router;
+      },
+    },
+    // Start during bootstrap; 'blocking' holds the bootstrap until the initial navigation settles
+    provideAppInitializer(() => {
+      const started = inject(Router).start();
+      return inject(ROUTER_CONFIG).initialNavigation === 'blocking' ? started : undefined;
+    }),
+  ]);
+}
+
+// The server has no browser history, so it renders the requested URL from memory
+function serverLocation(baseHref: string | undefined): LocationStrategy {
+  const platformLocation = inject(PlatformLocation);
+  const base = new PathLocationStrategy(baseHref ?? platformLocation.getBaseHrefFromDOM() ?? '');
+  const path = base.stripBaseHref(platformLocation.pathname) ?? '/';
+  return new MemoryHistory(path + platformLocation.search + platformLocation.hash);
+}
@@ -0,0 +1,120 @@
+import type { ActivatedRoute } from './activated-route';
+import { RouterOutletHost, findRouterOutlet } from './outlet';
+import type { NavigationResult, Route } from './router';
+
+// Anything a renderer can mount: an Angular component, a DOM view factory, a custom element tag name or class
+export type RouteComponent = unknown;
+
+// What a renderer is given to render one route level
+export interface RenderContext {
+  route: Route;
+  activatedRoute: ActivatedRoute; // Live route, the same object for as long as the view is reused
+  outlet: HTMLElement | null; // Outlet the view is placed into
+  scope: unknown; // This renderer's scope for the level, see createScope
+}
+
+// A view a renderer has placed into an outlet
+export interface MountedView {
+  nodes: Node[]; // Top-level nodes placed into the outlet
+  outlet: HTMLElement | null; // Outlet the child level renders into
+  instance: unknown; // Receives the RouteViewHooks: component instance, custom element or the node a factory built
+}
+
+// What an errorComponent is given about the failure it shows
+export interface RouteError {
+  error: unknown;
+  route: Route; // Route whose guard, resolver or load failed
+  retry(): Promise<NavigationResult>; // Navigate to the failed URL again; failed loads are retried
+}
+
+// Lifecycle hooks a view may implement
+export interface RouteViewHooks {
+  onActivate?(route: ActivatedRoute): void; // Rendered into its outlet
+  onDeactivate?(route: ActivatedRoute): void; // About to be removed, still in the DOM
+  onDestroy?(route: ActivatedRoute): void; // Removed; release timers and subscriptions here
+}
+
+// Renders one kind of route component; the router uses the first renderer that supports a component
+export interface RouteRenderer<C = any, V extends MountedView = MountedView> {
+  supports(component: unknown): component is C;
+  mount(component: C, context: RenderContext): V;
+  update(view: V, context: RenderContext): void; // A reused view moved to new route state
+  unmount(view: V): void;
+  error(error: RouteError, component: C, context: RenderContext): V; // Mount an errorComponent for a failed route
+  // State shared by a route level and the levels below it; return parent when the route adds nothing
+  createScope?(route: Route, parent: unknown): unknown;
+  destroyScope?(scope: unknown): void;
+}
+
+// Vanilla view: a factory building the DOM of a route; errorComponent factories also receive the error
+export type ViewFactory = (route: ActivatedRoute, error?: RouteError) => Node;
+
+// Renders vanilla view factories; they follow later changes through their ActivatedRoute streams
+export class DomRenderer implements RouteRenderer<ViewFactory> {
+  supports(component: unknown): component is ViewFactory {
+    return typeof component === 'function';
+  }
+
+  mount(factory: ViewFactory, context: RenderContext): MountedView {
+    return placeInOutlet(factory(context.activatedRoute), context.outlet);
+  }
+
+  update(): void {}
+
+  unmount(view: MountedView): void {
+    removeNodes(view);
+  }
+
+  error(error: RouteError, factory: ViewFactory, context: RenderContext): MountedView {
+    return placeInOutlet(factory(context.activatedRoute, error), context.outlet);
+  }
+}
+
+// Custom element tag name, or the class of a defined custom element
+export type WebComponent = string | CustomElementConstructor;
+
+// Renders custom elements, handing them their live ActivatedRoute as the routeData property,
+// and errorComponents their RouteError as the routeError property
+export class WebComponentRenderer implements RouteRenderer<WebComponent> {
+  supports(component: unknown): component is WebComponent {
+    return (
+      typeof component === 'string' ||
+      (typeof component === 'function' && typeof HTMLElement !== 'undefined' && component.prototype instanceof HTMLElement)
+    );
+  }
+
+  mount(component: WebComponent, context: RenderContext, error?: RouteError): MountedView {
+    const element: HTMLElement & { routeData?: ActivatedRoute; routeError?: RouteError } =
+      typeof component === 'string' ? document.createElement(component) : new component();
+    // Set before the element connects, so connectedCallback can read them
+    element.routeData = context.activatedRoute;
+    if (error) {
+      element.routeError = error;
+    }
+    return placeInOutlet(element, context.outlet);
+  }
+
+  update(): void {}
+
+  unmount(view: MountedView): void {
+    removeNodes(view);
+  }
+
+  error(error: RouteError, component: WebComponent, context: RenderContext): MountedView {
+    return this.mount(component, context, error);
+  }
+}
+
+// Replace what an outlet shows with a view, then find the outlet the view offers its child
+function placeInOutlet(node: Node, outlet: HTMLElement | null): MountedView {
+  const nodes = node instanceof DocumentFragment ? [...node.childNodes] : [node];
+  outlet?.replaceChildren(...nodes);
+
+  // Custom elements usually build their content once connected, so look after placing
+  const childOutlet = nodes.map((child) => findRouterOutlet(child, child as RouterOutletHost)).find(Boolean) ?? null;
+  return { nodes, outlet: childOutlet, instance: node };
+}
+
+function removeNodes(view: MountedView): void {
+  view.nodes.forEach((node) => node.parentNode?.removeChild(node));
+}
@@ -0,0 +1,285 @@
+import { MemoryHistory } from './location';
+import { MountedView, RouteRenderer } from './renderer';
+import { Route, Router, RouterConfig } from './router';
+
+// Renders components given by name without a DOM, keeping track of the views that are mounted
+class NameRenderer implements RouteRenderer<string> {
+  mounted: string[] = [];
+  unmounted: string[] = [];
+
+  supports(component: unknown): component is string {
+    return typeof component === 'string';
+  }
+
+  mount(name: string): MountedView {
+    if (name === 'broken') {
+      throw new Error('Cannot render broken');
+    }
+    this.mounted.push(name);
+    return { nodes: [], outlet: null, instance: name };
+  }
+
+  update(): void {}
+
+  unmount(view: MountedView): void {
+    const name = view.instance as string;
+    this.mounted.splice(this.mounted.indexOf(name), 1);
+    this.unmounted.push(name);
+  }
+
+  error(error: unknown, name: string): MountedView {
+    return this.mount(name);
+  }
+}
+
+// A guard result the spec decides on later
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+// Let back/forward navigations, which MemoryHistory reports asynchronously, run to the end
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+describe('Router', () => {
+  let renderer: NameRenderer;
+  let history: MemoryHistory;
+  let router: Router;
+
+  function createRouter(routes: Route[], url: string, config: Partial<RouterConfig> = {}): Router {
+    renderer = new NameRenderer();
+    history = new MemoryHistory(url);
+    router = new Router({ routes, location: history, rootElement: null, document: null, renderers: [renderer], ...config });
+    return router;
+  }
+
+  beforeEach(() => {
+    spyOn(console, 'error');
+  });
+
+  afterEach(() => {
+    router.destroy();
+  });
+
+  describe('history', () => {
+    it('is only written once guards pass', async () => {
+      const urlsSeenByGuard: (string | null)[] = [];
+      let allow = true;
+      createRouter(
+        [
+          { path: 'home', component: 'home' },
+          { path: 'admin', component: 'admin', canActivate: [{ canActivate: () => (urlsSeenByGuard.push(history.path()), allow) }] },
+        ],
+        '/home'
+      );
+      await router.start();
+
+      expect((await router.navigate('/admin')).status).toBe('succeeded');
+      expect(urlsSeenByGuard).toEqual(['/home']);
+      expect(history.path()).toBe('/admin');
+
+      await router.navigate('/home');
+      allow = false;
+      expect((await router.navigate('/admin')).status).toBe('cancelled');
+      expect(history.path()).toBe('/home');
+      expect(renderer.mounted).toEqual(['home']);
+    });
+
+    it('is restored after a blocked back navigation', async () => {
+      let allowA = true;
+      createRouter(
+        [
+          { path: 'a', component: 'a', canActivate: [{ canActivate: () => allowA }] },
+          { path: 'b', component: 'b' },
+        ],
+        '/a'
+      );
+      await router.start();
+      await router.navigate('/b');
+
+      allowA = false;
+      history.back();
+      await settle();
+
+      expect(history.path()).toBe('/b');
+      expect(router.currentPath).toBe('/b');
+      expect(renderer.mounted).toEqual(['b']);
+    });
+
+    it('is restored after a back navigation redirected to a blocked route', async () => {
+      let redirectA = false;
+      let allowE = true;
+      createRouter(
+        [
+          { path: 'a', component: 'a', canActivate: [{ canActivate: () => (redirectA ? '/e' : true) }] },
+          { path: 'e', component: 'e', canActivate: [{ canActivate: () => allowE }] },
+        ],
+        '/a'
+      );
+      await router.start();
+      await router.navigate('/e');
+
+      redirectA = true;
+      allowE = false;
+      history.back();
+      await settle();
+
+      expect(history.path()).toBe('/e');
+      expect(router.currentPath).toBe('/e');
+      expect(renderer.mounted).toEqual(['e']);
+    });
+
+    it('rewrites the entry a redirected back navigation lands on and keeps its position', async () => {
+      let redirectA = false;
+      createRouter(
+        [
+          { path: 'a', component: 'a', canActivate: [{ canActivate: () => (redirectA ? '/d' : true) }] },
+          { path: 'b', component: 'b' },
+          { path: 'c', component: 'c' },
+          { path: 'd', component: 'd' },
+        ],
+        '/a'
+      );
+      await router.start();
+      await router.navigate('/b');
+      await router.navigate('/c');
+
+      redirectA = true;
+      history.go(-2);
+      await settle();
+
+      expect(history.path()).toBe('/d');
+      expect(history.state().pageId).toBe(0);
+
+      history.forward();
+      await settle();
+
+      expect(history.path()).toBe('/b');
+      expect(router.currentPath).toBe('/b');
+    });
+  });
+
+  it('cancels a navigation superseded by a newer one', async () => {
+    const slowGuard = deferred<boolean>();
+    let slowSignal: AbortSignal | undefined;
+    createRouter(
+      [
+        { path: 'home', component: 'home' },
+        { path: 'slow', component: 'slow', canActivate: [{ canActivate: (route, signal) => ((slowSignal = signal), slowGuard.promise) }] },
+        { path: 'fast', component: 'fast' },
+      ],
+      '/home'
+    );
+    await router.start();
+
+    const slow = router.navigate('/slow');
+    await settle();
+    const fast = router.navigate('/fast');
+    slowGuard.resolve(true);
+
+    expect((await slow).status).toBe('cancelled');
+    expect((await fast).status).toBe('succeeded');
+    expect(slowSignal?.aborted).toBeTrue();
+    expect(history.path()).toBe('/fast');
+    expect(renderer.mounted).toEqual(['fast']);
+  });
+
+  it('fails a redirect loop without touching the history', async () => {
+    createRouter(
+      [
+        { path: 'home', component: 'home' },
+        { path: 'a', redirectTo: '/b' },
+        { path: 'b', redirectTo: '/a' },
+      ],
+      '/home'
+    );
+    await router.start();
+
+    const result = await router.navigate('/a');
+
+    expect(result.status).toBe('failed');
+    expect(String(result.error)).toContain('Redirect loop detected: /a -> /b -> /a');
+    expect(history.path()).toBe('/home');
+  });
+
+  describe('with named outlets', () => {
+    let failLoad: boolean;
+
+    beforeEach(() => {
+      failLoad = false;
+      createRouter(
+        [
+          { path: 'home', component: 'home' },
+          { path: 'inbox', component: 'inbox' },
+          {
+            path: 'chat/:id',
+            outlet: 'sidebar',
+            loadComponent: () => (failLoad ? Promise.reject(new Error('Offline')) : Promise.resolve('chat')),
+          },
+          {
+            path: 'contacts',
+            outlet: 'sidebar',
+            component: 'contacts',
+            resolve: { contacts: { resolve: () => Promise.reject(new Error('Offline')) } },
+          },
+        ],
+        '/home',
+        { errorComponent: 'error' }
+      );
+      return router.start();
+    });
+
+    it('keeps outlets that did not get through their guards and resolvers out of a failed navigation', async () => {
+      const result = await router.navigate('/inbox(sidebar:contacts)');
+
+      expect(result.status).toBe('failed');
+      expect(renderer.mounted).toEqual(['home', 'error']);
+      expect(router.currentPath).toBe('/home');
+      expect(history.path()).toBe('/home(sidebar:contacts)');
+
+      expect((await router.navigate('/inbox')).status).toBe('succeeded');
+      expect(renderer.mounted).toEqual(['inbox']);
+    });
+
+    it('renders the ready outlets alongside the one that failed to load', async () => {
+      failLoad = true;
+      const result = await router.navigate('/inbox(sidebar:chat/42)');
+
+      expect(result.status).toBe('failed');
+      expect(renderer.mounted).toEqual(jasmine.arrayWithExactContents(['inbox', 'error']));
+      expect(router.currentPath).toBe('/inbox');
+      expect(history.path()).toBe('/inbox(sidebar:chat/42)');
+    });
+  });
+
+  it('shows the error boundary for a view that fails to mount and destroys the view it replaced', async () => {
+    createRouter(
+      [
+        { path: 'home', component: 'home' },
+        { path: 'bad', component: 'broken' },
+      ],
+      '/home',
+      { errorComponent: 'error' }
+    );
+    await router.start();
+
+    const result = await router.navigate('/bad');
+
+    expect(result.status).toBe('failed');
+    expect(history.path()).toBe('/bad');
+    expect(renderer.unmounted).toEqual(['home']);
+    expect(renderer.mounted).toEqual(['error']);
+  });
+
+  it('keeps query params named like Object.prototype members when merging', async () => {
+    createRouter([{ path: 'p', component: 'p' }], '/p?__proto__=a&__proto__=b&x=1');
+    await router.start();
+
+    expect(router.createUrl('/p', { queryParamsHandling: 'merge', queryParams: { y: '2' } })).toBe(
+      '/p?__proto__=a&__proto__=b&x=1&y=2'
+    );
+  });
+});
@@ -1,113 +1,462 @@
 import {
-  NgModuleRef,
-  ApplicationRef,
-  Injector,
-  Type,
-  ComponentRef,
-  createComponent,
-  EnvironmentInjector,
-} from '@angular/core';
+  GuardsCheckEnd,
+  GuardsCheckStart,
+  NavigationCancel,
+  NavigationEnd,
+  NavigationError,
+  NavigationNotFound,
+  NavigationStart,
+  NavigationTrigger,
+  ResolveEnd,
+  ResolveStart,
+  RouterEvent,
+  RouterEventMap,
+  RouterEventSubscription,
+  RouterEvents,
+} from './events';
+import { ActivatedRoute, ActivatedRouteSnapshot, RouteValue } from './activated-route';
+import { HashLocationStrategy, LocationStrategy, PathLocationStrategy } from './location';
+import { ParamParser, RouteMatch, RouteMatcher, isSameMatch } from './match';
+import { PRIMARY_OUTLET } from './outlet';
+import { NoPreloading, PreloadingStrategy, RoutePreloader } from './preloading';
+import { ScrollContainer, ViewportScroller } from './scroll';
+import { LeavingView, RouteTransitions } from './transitions';
+import {
+  DomRenderer,
+  MountedView,
+  RenderContext,
+  RouteComponent,
+  RouteError,
+  RouteRenderer,
+  RouteViewHooks,
+  WebComponentRenderer,
+} from './renderer';
+import {
+  GuardResult,
+  QueryParams,
+  UrlTree,
+  isRedirect,
+  parseOutlets,
+  parseUrl,
+  serializeOutlets,
+  serializeQueryParams,
+} from './url-tree';
 
 export interface Route {
   path: string;
-  loadComponent?: () => Promise<Type<any>>; // For Angular components
-  loadChildren?: () => Promise<NgModuleRef<any>>; // For Angular modules
+  component?: RouteComponent; // Rendered by the first renderer supporting it
+  loadComponent?: () => Promise<RouteComponent>; // Lazily loaded component, or a module whose default export is one
+  loadChildren?: () => Promise<Route[] | { default: Route[] }>; // Lazily loaded child routes
+  providers?: any[]; // Services scoped to this route and the routes below it, e.g. Angular providers
   redirectTo?: string;
   pathMatch?: 'full' | 'prefix';
+  outlet?: string; // Named outlet a top-level route renders into, e.g. 'sidebar' for /inbox(sidebar:chat/42)
   data?: Record<string, any>;
   children?: Route[]; // Support for nested routes
+  paramParsers?: Record<string, ParamParser>; // Typed path params, e.g. { id: Number }
   canActivate?: CanActivate[]; // Route guards
+  canActivateChild?: CanActivateChild[]; // Guards for every route below this one
   canDeactivate?: CanDeactivate[]; // Route deactivation guards
   canLoad?: CanLoad[]; // Lazy loading guards
   resolve?: Record<string, Resolve<any>>; // Resolvers
-  errorComponent?: Type<any>; // Fallback component for errors
+  errorComponent?: RouteComponent; // Fallback component for errors
+  loadingComponent?: RouteComponent; // Shown while a slow navigation into this route or below it runs
+  notFoundComponent?: RouteComponent; // Shown below this route for URLs none of its children match
 }
 
 export interface RouterConfig {
   routes: Route[];
-  rootElement?: HTMLElement | null;
+  rootElement?: HTMLElement | null; // Element of the primary outlet, defaults to #app; null waits for registerOutlet
+  document?: Document | null; // Document to find #app in and intercept link clicks on, defaults to the global one
+  location?: LocationStrategy; // Where the URL is read from and written to, defaults to PathLocationStrategy
+  baseHref?: string; // Prefix the app is mounted under, defaults to the document <base href>
   enableTracing?: boolean; // For debugging
+  maxRedirects?: number; // Redirects a single navigation may follow, defaults to 10
+  initialNavigation?: 'enabled' | 'disabled' | 'blocking'; // What start() does with the current URL, defaults to 'enabled'
+  scrollPositionRestoration?: 'top' | 'restore' | 'disabled'; // Scroll after navigating; 'restore' returns to the position of a back/forward entry
+  anchorScrolling?: boolean; // Scroll to the element named by the URL fragment
+  scrollContainer?: ScrollContainer; // Element that scrolls, defaults to the window
+  preloadingStrategy?: PreloadingStrategy; // Which lazy routes load ahead of navigation, defaults to NoPreloading
+  transitions?: boolean; // Animate route changes; routes pick a transition name with data.transition, or turn it off with false
+  paramsInheritanceStrategy?: 'emptyOnly' | 'always'; // How data flows down the route tree, defaults to 'emptyOnly'
+  renderers?: RouteRenderer[]; // Tried in order, before the built-in Web Component and DOM factory renderers
+  loadingComponent?: RouteComponent; // Shown while a slow navigation runs, for routes without a loadingComponent of their own
+  pendingMs?: number; // How long a navigation runs before its loading component shows, defaults to 500
+  pendingMinMs?: number; // How long a loading component stays up once shown, defaults to 500
+  errorComponent?: RouteComponent; // Shown in place of a failed route when no route above it has an errorComponent
+  errorHandler?: NavigationErrorHandler; // Called for every failed navigation, before any errorComponent shows
+  notFoundComponent?: RouteComponent; // Shown in the primary outlet for URLs no route matches
 }
 
-export interface ActivatedRoute {
-  params: Record<string, string>;
-  queryParams: Record<string, string>;
-  path: string;
-  data?: Record<string, any>; // Data associated with the route
+// Navigation an errorHandler is told about
+export interface FailedNavigation {
+  id: number;
+  url: string;
+  trigger: NavigationTrigger;
+}
+
+// Return a URL, or a UrlTree, to recover from a failed navigation by redirecting there
+export type NavigationErrorHandler = (
+  error: unknown,
+  navigation: FailedNavigation
+) => string | UrlTree | void | Promise<string | UrlTree | void>;
+
+// Options for a single navigation
+export interface NavigationExtras {
+  replace?: boolean; // Replace the current history entry instead of pushing one
+  queryParams?: Record<string, string | string[] | null | undefined>; // null or undefined values drop the key
+  queryParamsHandling?: 'merge' | 'preserve'; // Combine with, or keep, the current query params
+  fragment?: string;
+}
+
+// Navigate named outlets on their own, keeping the others; null closes an outlet
+export interface OutletCommands {
+  outlets: Record<string, string | null>;
 }
 
 export interface CanActivate {
-  canActivate(route: ActivatedRoute): boolean | Promise<boolean>;
+  canActivate(route: ActivatedRouteSnapshot, signal: AbortSignal): GuardResult | Promise<GuardResult>;
+}
+
+export interface CanActivateChild {
+  canActivateChild(childRoute: ActivatedRouteSnapshot, signal: AbortSignal): GuardResult | Promise<GuardResult>;
 }
 
+// Deactivation guards receive the route being left
 export interface CanDeactivate {
-  canDeactivate(route: ActivatedRoute): boolean | Promise<boolean>;
+  canDeactivate(route: ActivatedRouteSnapshot, signal: AbortSignal): boolean | Promise<boolean>;
 }
 
 export interface CanLoad {
-  canLoad(route: Route): boolean | Promise<boolean>;
+  canLoad(route: Route, signal: AbortSignal): GuardResult | Promise<GuardResult>;
 }
 
 export interface Resolve<T> {
-  resolve(route: ActivatedRoute): T | Promise<T>;
+  resolve(route: ActivatedRouteSnapshot, signal: AbortSignal): T | Promise<T>;
+}
+
+// Outcome of a navigation, resolved once it settles
+export interface NavigationResult {
+  status: 'succeeded' | 'cancelled' | 'redirected' | 'failed';
+  url: string; // URL that was requested
+  finalUrl?: string; // URL the router ended up on, after redirects
+  reason?: string; // Why the navigation was cancelled
+  error?: unknown; // Why the navigation failed
+}
+
+// How a navigation was requested
+interface NavigationRequest {
+  trigger: NavigationTrigger;
+  replace: boolean;
+  pageId?: number; // History entry a back/forward navigation moved to
+  scroll?: [number, number]; // Scroll position stored in that entry
+  redirects?: string[]; // URLs already visited by the redirect chain leading here
+}
+
+// Child routes of a lazy route, compiled once they are loaded
+interface LoadedChildren {
+  routes: Route[];
+  matcher: RouteMatcher<Route>;
+}
+
+// The navigation in flight
+interface ActiveNavigation {
+  id: number;
+  url: string;
+  controller: AbortController;
+  pendingTimer?: ReturnType<typeof setTimeout>;
+  pendingViews: PendingView[];
+  matched: Map<string, { chain: RouteMatch<Route>[]; complete: boolean }>; // Chain of each outlet so far, lazy children included once loaded
+}
+
+// Loading component shown in place of what an outlet showed while a navigation runs
+interface PendingView {
+  outlet: HTMLElement;
+  previous: Node[]; // Put back when the pending view goes
+  renderer: RouteRenderer;
+  rendered: MountedView;
+  shownAt: number;
+}
+
+// A route level currently rendered into an outlet
+interface ActiveView {
+  match: RouteMatch<Route>;
+  activatedRoute: ActivatedRoute; // Live route, updated in place while the view is reused
+  failed?: boolean; // Showing an errorComponent, never reused
+  renderer: RouteRenderer | null; // Renderer of the mounted view, null for componentless levels
+  rendered: MountedView | null;
+  scopes: Map<RouteRenderer, unknown>; // Scope of each renderer at this level
+  outlet: HTMLElement | null; // Outlet the child level renders into
+}
+
+// Views rendered into one top-level outlet, from its top-level route down to the leaf
+interface OutletState {
+  element: HTMLElement | null; // The root element for the primary outlet, a registered element for named ones
+  views: ActiveView[];
+}
+
+// The part of a navigation that changes one outlet
+interface OutletNavigation {
+  name: string;
+  state: OutletState;
+  path: string | null; // null when a named outlet closes
+  chain: RouteMatch<Route>[] | null;
+  reused: number;
+  targets: ActivatedRouteSnapshot[];
+  notFound: boolean; // The chain ends on a notFoundComponent, or is empty for lack of one
 }
 
 export class Router {
   private routes: Route[] = [];
-  private currentParams: Record<string, string> = {};
-  private rootElement: HTMLElement | null;
+  private matchers = new Map<string, RouteMatcher<Route>>(); // Top-level routes of each outlet, compiled on first use
+  private loadedComponents = new Map<Route, Promise<RouteComponent>>(); // Lazy components, shared by navigation and preloading
+  private loadedChildren = new Map<Route, Promise<LoadedChildren>>(); // Lazy children, loaded once and kept
+  private notFoundRoutes = new Map<Route | null, Route>(); // Stand-in route for the unmatched URL below each route, null at the top
+  private preloader: RoutePreloader;
+  private transitions: RouteTransitions;
+  private currentParams: Record<string, any> = {};
+  private location: LocationStrategy;
+  private removePopStateListener: (() => void) | null = null;
   private enableTracing: boolean;
-  private currentComponentRef: ComponentRef<any> | null = null;
-  private currentModuleRef: NgModuleRef<any> | null = null;
+  private maxRedirects: number;
+  private initialNavigation: 'enabled' | 'disabled' | 'blocking';
+  private scrollPositionRestoration: 'top' | 'restore' | 'disabled';
+  private anchorScrolling: boolean;
+  private scroller: ViewportScroller;
+  private scrollPositions = new Map<number, [number, number]>(); // Position each history entry was left at, by pageId
+  private previousScrollRestoration: ScrollRestoration | null = null; // Browser setting start() replaced, put back by destroy()
+  private started: Promise<NavigationResult | null> | null = null;
+  private paramsInheritanceStrategy: 'emptyOnly' | 'always';
+  private renderers: RouteRenderer[];
+  private outlets = new Map<string, OutletState>(); // Rendered views of the primary and every named outlet
+  private navigationId = 0;
+  private currentUrl: string = ''; // Last committed URL, restored when a back/forward navigation is blocked
+  private currentPageId = 0; // Position of the current history entry, read from the history by start()
+  private restoringHistory = false;
+  private destroyed = false;
+  private document: Document | null;
+  private loadingComponent: RouteComponent | undefined;
+  private errorComponent: RouteComponent | undefined;
+  private errorHandler: NavigationErrorHandler | undefined;
+  private chunkReloadPending = readChunkReload() !== null; // This page was loaded by a chunk error reload
+  private notFoundComponent: RouteComponent | undefined;
+  private pendingMs: number;
+  private pendingMinMs: number;
+  private activeNavigation: ActiveNavigation | null = null;
+  private eventListeners: { type: string; listener: Function; subscription: RouterEventSubscription }[] = [];
 
-  // Expose current path and query as public properties
-  public currentPath: string = '';
-  public currentQuery: Record<string, string> = {};
+  // Stream of navigation lifecycle events
+  public readonly events = new RouterEvents();
 
-  constructor(
-    config: RouterConfig,
-    private appRef: ApplicationRef,
-    private injector: Injector,
-    private environmentInjector: EnvironmentInjector
-  ) {
-    this.routes = config.routes;
+  // Whether a navigation is in flight, e.g. for a progress bar
+  public readonly isNavigating = new RouteValue(false);
 
-    // Ensure the wildcard route is the last route
-    const wildcardIndex = this.routes.findIndex((r) => r.path === '*');
-    if (wildcardIndex >= 0 && wildcardIndex !== this.routes.length - 1) {
-      throw new Error('The wildcard route (path: "*") must be the last route in the configuration.');
-    }
+  // HTTP status a server-side renderer should answer with: 404 while the primary outlet shows a not-found page
+  public readonly responseStatus = new RouteValue(200);
+
+  // Expose current path and query as public properties
+  public currentPath: string = ''; // Path of the primary outlet
+  public currentOutlets: Record<string, string> = {}; // Paths of the open named outlets
+  public currentQuery: QueryParams = {};
+  public currentFragment: string | undefined;
 
-    this.rootElement = config.rootElement || document.getElementById('app');
+  constructor(config: RouterConfig) {
+    this.routes = config.routes;
+    // Nothing browser-only is read before start(), so the router can be built on the server;
+    // without a document, e.g. in a worker or under test, there is no #app element to fall back to
+    this.document = config.document !== undefined ? config.document : typeof document !== 'undefined' ? document : null;
+    const rootElement = config.rootElement === undefined ? this.document?.getElementById('app') : config.rootElement;
+    this.outlets.set(PRIMARY_OUTLET, { element: rootElement ?? null, views: [] });
+    this.location = config.location || new PathLocationStrategy(config.baseHref);
     this.enableTracing = config.enableTracing || false;
+    this.maxRedirects = config.maxRedirects ?? 10;
+    this.initialNavigation = config.initialNavigation ?? 'enabled';
+    this.scrollPositionRestoration = config.scrollPositionRestoration ?? 'disabled';
+    this.anchorScrolling = config.anchorScrolling ?? false;
+    this.scroller = new ViewportScroller(config.scrollContainer);
+    this.preloader = new RoutePreloader(config.preloadingStrategy ?? new NoPreloading(), {
+      loadRoute: (route) => this._preloadRoute(route),
+      linkUrl: (link) => this._linkUrl(link),
+      preloadUrl: (url) => this._preloadUrl(url),
+    });
+    this.transitions = new RouteTransitions(config.transitions ?? false);
+    this.paramsInheritanceStrategy = config.paramsInheritanceStrategy ?? 'emptyOnly';
+    this.renderers = [...(config.renderers ?? []), new WebComponentRenderer(), new DomRenderer()];
+    this.loadingComponent = config.loadingComponent;
+    this.pendingMs = config.pendingMs ?? 500;
+    this.pendingMinMs = config.pendingMinMs ?? 500;
+    this.errorComponent = config.errorComponent;
+    this.errorHandler = config.errorHandler;
+    this.notFoundComponent = config.notFoundComponent;
 
     this._handlePopState = this._handlePopState.bind(this);
     this._handleClick = this._handleClick.bind(this);
-
-    this._bindEvents();
-    this._navigateToCurrentUrl();
   }
 
-  // Navigate to a new path
-  navigate(path: string, replace: boolean = false): void {
+  // Navigate to a new path, or change named outlets; history is only written once guards and resolvers pass
+  navigate(path: string | OutletCommands, extras: boolean | NavigationExtras = {}): Promise<NavigationResult> {
+    // A boolean is the replace flag, as accepted before extras existed
+    const options = typeof extras === 'boolean' ? { replace: extras } : extras;
+    const url = this.createUrl(path, options);
+
     if (this.enableTracing) {
-      console.log(`Navigating to: ${path}`);
+      console.log(`Navigating to: ${url}`);
+    }
+
+    return this._handleRouting(url, { trigger: 'imperative', replace: options.replace ?? false });
+  }
+
+  // Start listening to the URL and, unless initialNavigation is 'disabled', navigate to the current one.
+  // Resolves once that initial navigation settles; construction alone never renders.
+  start(): Promise<NavigationResult | null> {
+    if (this.destroyed) {
+      throw new Error('Cannot start a destroyed router');
+    }
+
+    if (!this.started) {
+      // The browser would restore the window scroll on its own, before the view of the entry is back;
+      // only the browser history has entries it restores, other location strategies leave it alone
+      if (this.scrollPositionRestoration !== 'disabled' && this.scroller.isWindow && this._usesBrowserHistory()) {
+        this.previousScrollRestoration = window.history.scrollRestoration;
+        window.history.scrollRestoration = 'manual';
+      }
+      this.currentPageId = this.location.state()?.pageId ?? 0;
+      this._bindEvents();
+      this.preloader.observeLinks();
+      this.started = this.initialNavigation === 'disabled' ? Promise.resolve(null) : this._navigateToCurrentUrl();
+    }
+    return this.started;
+  }
+
+  // Replace the route configuration, e.g. between construction and start()
+  resetConfig(routes: Route[]): void {
+    this.routes = routes;
+    this.matchers.clear();
+    this.loadedComponents.clear();
+    this.loadedChildren.clear();
+    this.notFoundRoutes.clear();
+  }
+
+  // Tear the router down: stop listening, abort the navigation in flight and destroy every rendered view
+  destroy(): void {
+    if (this.destroyed) {
+      return;
+    }
+    this.destroyed = true;
+
+    const navigation = this.activeNavigation;
+    if (navigation) {
+      navigation.controller.abort();
+      this._hidePending(navigation);
+      this._emit(new NavigationCancel(navigation.id, navigation.url, 'The router was destroyed', 'Aborted'));
+      this.activeNavigation = null;
+      this.isNavigating.next(false);
     }
 
-    const method = replace ? 'replaceState' : 'pushState';
-    window.history[method]({}, '', path);
-    this._handleRouting(path);
+    this._unbindEvents();
+    if (this.previousScrollRestoration !== null) {
+      window.history.scrollRestoration = this.previousScrollRestoration;
+      this.previousScrollRestoration = null;
+    }
+    this.preloader.disconnect();
+    this.transitions.flush();
+    this.outlets.forEach((outlet) => this._destroyViews(outlet, 0));
+    this.eventListeners.forEach((entry) => entry.subscription.unsubscribe());
+    this.eventListeners = [];
+  }
+
+  // Listen to a single type of router event
+  addEventListener<K extends keyof RouterEventMap>(type: K, listener: (event: RouterEventMap[K]) => void): void {
+    const subscription = this.events.subscribe((event) => {
+      if (event.type === type) {
+        listener(event as RouterEventMap[K]);
+      }
+    });
+    this.eventListeners.push({ type, listener, subscription });
+  }
+
+  // Stop listening to a router event type
+  removeEventListener<K extends keyof RouterEventMap>(type: K, listener: (event: RouterEventMap[K]) => void): void {
+    const index = this.eventListeners.findIndex((entry) => entry.type === type && entry.listener === listener);
+    if (index >= 0) {
+      this.eventListeners[index].subscription.unsubscribe();
+      this.eventListeners.splice(index, 1);
+    }
+  }
+
+  // Build the URL of a navigation from its path, or outlet commands, and structured extras
+  createUrl(target: string | OutletCommands, extras: NavigationExtras = {}): string {
+    const path = typeof target === 'string' ? target : this._applyOutletCommands(target);
+    if (!extras.queryParams && !extras.queryParamsHandling && extras.fragment === undefined) {
+      return path;
+    }
+
+    const url = parseUrl(path);
+    let queryParams: NavigationExtras['queryParams'];
+    switch (extras.queryParamsHandling) {
+      case 'preserve':
+        queryParams = this.currentQuery;
+        break;
+      case 'merge':
+        queryParams = { ...this.currentQuery, ...url.queryParams, ...extras.queryParams };
+        break;
+      default:
+        queryParams = { ...url.queryParams, ...extras.queryParams };
+    }
+
+    // Like parsed query params, keys such as __proto__ stay plain params
+    const query: QueryParams = Object.create(null);
+    for (const [key, value] of Object.entries(queryParams)) {
+      if (value !== null && value !== undefined) {
+        query[key] = value;
+      }
+    }
+
+    return new UrlTree(url.path, query, extras.fragment ?? url.fragment).toString();
+  }
+
+  // Turn a router URL into the href a link should carry
+  createHref(url: string): string {
+    return this.location.prepareExternalUrl(url);
+  }
+
+  // Whether a URL is the current one; without exact, its path may also be an ancestor of the current path
+  isActive(url: string, exact: boolean = false): boolean {
+    const path = parseUrl(url).path.replace(/\/+$/, '') || '/';
+    const current = this.currentPath.replace(/\/+$/, '') || '/';
+    if (exact || path === '/') {
+      return path === current;
+    }
+    return current === path || current.startsWith(`${path}/`);
+  }
+
+  // Render into a new root outlet, moving the views already rendered
+  setRootElement(element: HTMLElement | null): void {
+    this.registerOutlet(PRIMARY_OUTLET, element);
+  }
+
+  // Give an outlet the element it renders into, moving the views already rendered
+  registerOutlet(name: string, element: HTMLElement | null): void {
+    const outlet = this._outlet(name);
+    outlet.element = element;
+    const topView = outlet.views[0];
+    if (element && topView?.rendered) {
+      element.replaceChildren(...topView.rendered.nodes);
+    }
   }
 
-  // Start the router
-  start(): void {
-    this._navigateToCurrentUrl();
+  // Detach an outlet from its element, unless another element has been registered since
+  unregisterOutlet(name: string, element: HTMLElement): void {
+    const outlet = this.outlets.get(name);
+    if (outlet?.element === element) {
+      outlet.element = null;
+    }
   }
 
   // Create a link element
   createLink(to: string, text: string, className: string = ''): HTMLAnchorElement {
     const link = document.createElement('a');
-    link.href = to;
+    link.href = this.createHref(to);
     link.textContent = text;
     if (className) link.className = className;
 
@@ -121,290 +470,1325 @@ export class Router {
     return link;
   }
 
-  private _handleRedirect(redirectTo: string, params: Record<string, string>): string {
+  private _handleRedirect(redirectTo: string, params: Record<string, any>): string {
     return redirectTo.replace(/:\w+/g, (match) => {
       const paramName = match.slice(1); // Remove the leading ':'
-      return params[paramName] || match; // Replace with actual value or keep the placeholder
+      return params[paramName] !== undefined ? String(params[paramName]) : match; // Replace with actual value or keep the placeholder
     });
   }
 
   // Handle routing logic
-  private async _handleRouting(path: string): Promise<void> {
-    const { pathname, params, query } = this._parsePath(path);
-    this.currentParams = params;
-    this.currentPath = pathname;
-    this.currentQuery = query;
+  private async _handleRouting(path: string, request: NavigationRequest): Promise<NavigationResult> {
+    if (this.destroyed) {
+      return { status: 'cancelled', url: path, reason: 'The router was destroyed' };
+    }
 
-    const route = this._findMatchingRoute(this.routes, pathname);
-
-    if (route) {
-      // Check route guards
-      if (route.canActivate) {
-        const canActivateResults = await Promise.all(
-          route.canActivate.map((guard) =>
-            guard.canActivate({
-              params: this.currentParams,
-              queryParams: this.currentQuery,
-              path: this.currentPath,
-              data: route.data,
-            })
-          )
-        );
+    const id = ++this.navigationId;
+
+    // A newer navigation supersedes the one in flight
+    const superseded = this.activeNavigation;
+    if (superseded) {
+      superseded.controller.abort();
+      this._hidePending(superseded);
+      const reason = `Navigation ${superseded.id} was superseded by navigation ${id}`;
+      this._emit(new NavigationCancel(superseded.id, superseded.url, reason, 'SupersededByNewNavigation'));
+    }
+    const controller = new AbortController();
+    const signal = controller.signal;
+    const active: ActiveNavigation = { id, url: path, controller, pendingViews: [], matched: new Map() };
+    this.activeNavigation = active;
+    if (!this.isNavigating.value) {
+      this.isNavigating.next(true);
+    }
+    this._schedulePending(active);
+
+    this._emit(new NavigationStart(id, path, request.trigger));
+
+    let committed = false;
+    let ready: OutletNavigation[] = []; // Outlets through guards and resolvers, which may render alongside a failed one
+    try {
+      const { pathname, outlets, query, fragment } = this._parsePath(path);
+      const navigations: OutletNavigation[] = [];
+
+      for (const [name, outletPath] of this._changedOutlets(path, pathname, outlets, query, fragment)) {
+        let chain = outletPath === null ? null : this._matcherFor(name).match(outletPath);
+        let unmatched = outletPath !== null && !chain;
+
+        // Lazy routes on the way load their children, once their canLoad guards let them
+        if (chain) {
+          active.matched.set(name, { chain, complete: false });
+          const lazy = await this._loadLazyChildren(name, chain, signal);
+          signal.throwIfAborted();
+          if ('blocked' in lazy) {
+            return await this._rejectNavigation(id, path, lazy.blocked, request);
+          }
+          ({ chain, unmatched } = lazy);
+        }
 
-        if (canActivateResults.some((result) => !result)) {
-          // If any guard returns false, block navigation
-          return;
+        // Only the primary outlet falls back to the configured notFoundComponent, or to an empty outlet
+        if (unmatched) {
+          chain = this._notFoundChain(chain, outletPath!, name === PRIMARY_OUTLET);
+          if (!chain && name !== PRIMARY_OUTLET) {
+            throw new Error(`Cannot match any routes for outlet '${name}': ${outletPath}`);
+          }
         }
+
+        if (chain) {
+          active.matched.set(name, { chain, complete: true });
+        }
+
+        // Guards and resolvers see the target routes, not the ones currently displayed
+        const state = this._outlet(name);
+        const reused = chain ? this._countReusedLevels(state, chain) : 0;
+        const targets = chain ? this._createTargets(state, chain, query, fragment, outletPath!, reused) : [];
+        navigations.push({ name, state, path: outletPath, chain, reused, targets, notFound: unmatched });
       }
 
-      // Check lazy loading guards
-      if (route.canLoad && (route.loadChildren || route.loadComponent)) {
-        const canLoadResults = await Promise.all(
-          route.canLoad.map((guard) => guard.canLoad(route))
-        );
+      // Every outlet goes through its own guards, the primary one first
+      this._emit(new GuardsCheckStart(id, path));
+      let guardResult: GuardResult = true;
+      for (const navigation of navigations) {
+        guardResult = await this._checkGuards(navigation, signal);
+        signal.throwIfAborted();
+        if (guardResult !== true) {
+          break;
+        }
+      }
+      this._emit(new GuardsCheckEnd(id, path, guardResult === true));
+
+      if (guardResult !== true) {
+        return await this._rejectNavigation(id, path, guardResult, request);
+      }
 
-        if (canLoadResults.some((result) => !result)) {
-          // If any guard returns false, block lazy loading
-          return;
+      // Resolve data
+      this._emit(new ResolveStart(id, path));
+      let resolveRedirect: UrlTree | null = null;
+      for (const navigation of navigations) {
+        if (navigation.chain) {
+          resolveRedirect = await this._resolveData(navigation, navigation.chain, signal);
+          signal.throwIfAborted();
+        }
+        if (resolveRedirect) {
+          break;
         }
       }
+      this._emit(new ResolveEnd(id, path));
 
-      // Check deactivation guards
-      if (this.currentComponentRef && route.canDeactivate) {
-        const canDeactivateResults = await Promise.all(
-          route.canDeactivate.map((guard) =>
-            guard.canDeactivate({
-              params: this.currentParams,
-              queryParams: this.currentQuery,
-              path: this.currentPath,
-              data: route.data,
-            })
-          )
-        );
+      if (resolveRedirect) {
+        return await this._redirect(id, path, resolveRedirect.toString(), request);
+      }
 
-        if (canDeactivateResults.some((result) => !result)) {
-          // If any guard returns false, block navigation
-          return;
+      // A redirect route replaces the path of its own outlet
+      for (const { name, chain } of navigations) {
+        const leaf = chain?.[chain.length - 1];
+        if (leaf?.route.redirectTo !== undefined) {
+          const redirectPath = this._handleRedirect(leaf.route.redirectTo, leaf.params) + (leaf.remainder ?? '');
+          const redirectUrl = name === PRIMARY_OUTLET
+            ? serializeOutlets(redirectPath, outlets)
+            : serializeOutlets(pathname, { ...outlets, [name]: redirectPath });
+          return await this._redirect(id, path, redirectUrl, request);
         }
       }
 
-      // Resolve data
-      const resolvedData: Record<string, any> = {};
-      if (route.resolve) {
-        await Promise.all(
-          Object.entries(route.resolve).map(async ([key, resolver]) => {
-            resolvedData[key] = await resolver.resolve({
-              params: this.currentParams,
-              queryParams: this.currentQuery,
-              path: this.currentPath,
-              data: route.data,
-            });
+      // Every outlet loads its views before any of them is swapped in, and before the URL changes,
+      // so a navigation superseded while loading leaves the URL of what is still rendered
+      ready = navigations;
+      const swaps: (() => LeavingView[])[] = [];
+      for (const navigation of navigations) {
+        swaps.push(await this._prepareOutlet(navigation, signal));
+      }
+      await this._settlePending(active);
+      signal.throwIfAborted();
+
+      // Guards and resolvers passed and the views are loaded, commit the navigation
+      this._commit(path, request, navigations.find(({ name }) => name === PRIMARY_OUTLET)?.chain);
+      committed = true;
+      await this.transitions.run(this._transitionName(navigations), () => {
+        this._hidePending(active);
+        return runSwaps(swaps);
+      });
+
+      // Only the primary outlet decides the status of the page
+      const primary = navigations.find(({ name }) => name === PRIMARY_OUTLET);
+      if (primary) {
+        this._setResponseStatus(primary.notFound ? 404 : 200);
+      }
+      if (navigations.some(({ notFound }) => notFound)) {
+        this._emit(new NavigationNotFound(id, path));
+      }
+
+      this._emit(new NavigationEnd(id, path));
+      if (this.chunkReloadPending) {
+        this.chunkReloadPending = false;
+        writeChunkReload(null);
+      }
+      this._scroll(request, fragment);
+      this.preloader.preloadRoutes(this.routes);
+      if (typeof window !== 'undefined') {
+        window.dispatchEvent(
+          new CustomEvent('routechange', {
+            detail: { path, params: this.currentParams, query: this.currentQuery },
           })
         );
       }
+      return { status: 'succeeded', url: path, finalUrl: path };
+    } catch (thrown) {
+      // The superseding navigation has already reported the cancellation and owns the URL
+      if (signal.aborted) {
+        return { status: 'cancelled', url: path, reason: 'Superseded by a newer navigation' };
+      }
 
-      // Prepare the ActivatedRoute object with the route data
-      const activatedRoute: ActivatedRoute = {
-        params: this.currentParams,
-        queryParams: this.currentQuery,
-        path: this.currentPath,
-        data: { ...route.data, ...resolvedData }, // Merge route data with resolved data
-      };
+      // Guards, resolvers, loads and mounts tag their errors with the route level they came from
+      const failure = thrown instanceof RouteFailure ? thrown : null;
+      const error = failure ? failure.error : thrown;
+      // An errorHandler takes over reporting
+      if (!this.errorHandler) {
+        console.error('Navigation failed:', error);
+      }
+      this._emit(new NavigationError(id, path, error));
+      return await this._recover(active, request, error, failure, committed ? [] : ready, committed);
+    } finally {
+      if (this.activeNavigation?.id === id) {
+        this._hidePending(active);
+        this.activeNavigation = null;
+      }
+      // A redirect has already finished the navigation that took over
+      if (!this.activeNavigation && this.isNavigating.value) {
+        this.isNavigating.next(false);
+      }
+    }
+  }
 
-      if (route.redirectTo) {
-        const redirectPath = this._handleRedirect(route.redirectTo, params);
-        this.navigate(redirectPath, true);
-        return;
+  // Record a committed navigation in the history and the current state; params follow the primary outlet when it changed
+  private _commit(path: string, request: NavigationRequest, primaryChain: RouteMatch<Route>[] | null | undefined): void {
+    const { pathname, outlets, query, fragment } = this._parsePath(path);
+    this._commitHistory(path, request);
+    if (primaryChain !== undefined) {
+      this.currentParams = primaryChain ? primaryChain[primaryChain.length - 1].params : {};
+    }
+    this.currentPath = pathname;
+    this.currentOutlets = outlets;
+    this.currentQuery = query;
+    this.currentFragment = fragment;
+  }
+
+  // Recover from a failed navigation: reload once for a missing chunk, redirect where the errorHandler says,
+  // or show the nearest errorComponent at the failed URL
+  private async _recover(
+    active: ActiveNavigation,
+    request: NavigationRequest,
+    error: unknown,
+    failure: RouteFailure | null,
+    ready: OutletNavigation[],
+    committed: boolean
+  ): Promise<NavigationResult> {
+    const { id, url, controller } = active;
+    const result: NavigationResult = { status: 'failed', url, error };
+    try {
+      if (this._reloadForChunkError(error, url)) {
+        return result;
       }
 
-      try {
-        // Handle Angular module loading
-        if (route.loadChildren) {
-          const module = await route.loadChildren();
-          this.currentModuleRef = module;
-
-          // Bootstrap the Angular module
-          const component = module.instance.ngDoBootstrap();
-          if (component) {
-            this._renderAngularComponent(component, activatedRoute);
+      const recovery = await this.errorHandler?.(error, { id, url, trigger: request.trigger });
+      controller.signal.throwIfAborted();
+      // A committed URL already has its history entry, which the redirect replaces so Back does not return to it
+      if (recovery && isRedirect(recovery)) {
+        return await this._redirect(id, url, recovery.toString(), committed ? { ...request, replace: true } : request);
+      }
+
+      if (failure && this._errorBoundary(failure.chain, failure.level)) {
+        // Committed once the levels above the errorComponent have loaded
+        await this._renderFailure(active, failure, ready, (renderedUrl, primaryChain) => {
+          if (!committed) {
+            this._commit(renderedUrl, request, primaryChain);
+            committed = true;
           }
-        }
-        // Handle Angular component loading
-        else if (route.loadComponent) {
-          const component = await route.loadComponent();
-          this._renderAngularComponent(component, activatedRoute);
-        }
+        });
+        return result;
+      }
+    } catch (recoveryError) {
+      if (controller.signal.aborted) {
+        return { status: 'cancelled', url, reason: 'Superseded by a newer navigation' };
+      }
+      console.error('Recovering from the failed navigation failed:', recoveryError);
+    }
+
+    if (!committed) {
+      this._restoreHistory(request);
+    }
+    return result;
+  }
+
+  // After a deploy the chunks the running app asks for may be gone; reload the page once to pick up the new build
+  private _reloadForChunkError(error: unknown, url: string): boolean {
+    // Without storage to remember the reload, the page could keep reloading
+    if (typeof window === 'undefined' || !isChunkLoadError(error) || this.chunkReloadPending || !writeChunkReload(url)) {
+      return false;
+    }
+    this.chunkReloadPending = true;
+
+    const target = new URL(this.createHref(url), window.location.href).href;
+    if (target === window.location.href) {
+      window.location.reload();
+    } else {
+      window.location.assign(target);
+    }
+    return true;
+  }
+
+  // Render a failure into its outlet, down to the nearest errorComponent above the failed level, together with
+  // the other outlets that are ready. The URL committed keeps the outlets that do not render at what they show.
+  private async _renderFailure(
+    active: ActiveNavigation,
+    failure: RouteFailure,
+    ready: OutletNavigation[],
+    commit: (url: string, primaryChain: RouteMatch<Route>[] | null | undefined) => void
+  ): Promise<void> {
+    const { pathname, outlets, query, fragment } = this._parsePath(active.url);
+    const path = failure.outlet === PRIMARY_OUTLET ? pathname : outlets[failure.outlet];
+    const state = this._outlet(failure.outlet);
+    const reused = this._countReusedLevels(state, failure.chain);
+    const targets = this._createTargets(state, failure.chain, query, fragment, path, reused);
+
+    const signal = active.controller.signal;
+    const swaps = [await this._prepareChain(failure.outlet, state, failure.chain, targets, signal, failure)];
+    const rendered = new Set([failure.outlet]);
+    let primaryChain: RouteMatch<Route>[] | null | undefined =
+      failure.outlet === PRIMARY_OUTLET ? failure.chain.slice(0, failure.level + 1) : undefined;
+    for (const navigation of ready) {
+      if (navigation.name === failure.outlet) {
+        continue;
+      }
+      try {
+        swaps.push(await this._prepareOutlet(navigation, signal));
       } catch (error) {
-        console.error('Failed to load component/module:', error);
-        if (route.errorComponent) {
-          this._renderAngularComponent(route.errorComponent, activatedRoute);
-        } else {
-          if (this.rootElement) {
-            this.rootElement.innerHTML = '<h1>Failed to load component/module</h1>';
-          }
+        signal.throwIfAborted();
+        console.error(`Rendering outlet '${navigation.name}' failed:`, error instanceof RouteFailure ? error.error : error);
+        continue;
+      }
+      rendered.add(navigation.name);
+      if (navigation.name === PRIMARY_OUTLET) {
+        primaryChain = navigation.chain;
+      }
+    }
+
+    await this._settlePending(active);
+    signal.throwIfAborted();
+    commit(this._renderedUrl(active.url, rendered), primaryChain);
+    await this.transitions.run(null, () => {
+      this._hidePending(active);
+      return runSwaps(swaps);
+    });
+  }
+
+  // A URL with only the given outlets taken from it; the others stay at what they show
+  private _renderedUrl(url: string, rendered: Set<string>): string {
+    const { pathname, outlets, query, fragment } = this._parsePath(url);
+    const primary = rendered.has(PRIMARY_OUTLET) ? pathname : this.currentPath || '/';
+    const named: Record<string, string> = {};
+    for (const name of new Set([...Object.keys(outlets), ...Object.keys(this.currentOutlets)])) {
+      const outletPath = rendered.has(name) ? outlets[name] : this.currentOutlets[name];
+      if (outletPath !== undefined) {
+        named[name] = outletPath;
+      }
+    }
+
+    const path = serializeOutlets(primary, named);
+    return path === parseUrl(url).path ? url : new UrlTree(path, query, fragment).toString();
+  }
+
+  // The nearest errorComponent at or above a failed level; the configured one shows in place of the failed level
+  private _errorBoundary(chain: RouteMatch<Route>[], level: number): { level: number; component: RouteComponent } | null {
+    for (let boundary = level; boundary >= 0; boundary--) {
+      const component = chain[boundary].route.errorComponent;
+      if (component) {
+        return { level: boundary, component };
+      }
+    }
+    return this.errorComponent ? { level, component: this.errorComponent } : null;
+  }
+
+  // Outlets a navigation changes, with their new path; null closes a named outlet.
+  // Outlets whose path, query and fragment stay the same keep their views, unless the same URL is navigated to again.
+  private _changedOutlets(
+    url: string,
+    pathname: string,
+    outlets: Record<string, string>,
+    query: QueryParams,
+    fragment: string | undefined
+  ): [string, string | null][] {
+    const refresh = url === this.currentUrl;
+    const sameState =
+      serializeQueryParams(query) === serializeQueryParams(this.currentQuery) && fragment === this.currentFragment;
+
+    const names = new Set([PRIMARY_OUTLET, ...Object.keys(this.currentOutlets), ...Object.keys(outlets)]);
+    const changed: [string, string | null][] = [];
+    for (const name of names) {
+      const next = name === PRIMARY_OUTLET ? pathname : outlets[name] ?? null;
+      const current = name === PRIMARY_OUTLET ? this.currentPath : this.currentOutlets[name] ?? null;
+      if (refresh || !sameState || next !== current) {
+        changed.push([name, next]);
+      }
+    }
+    return changed;
+  }
+
+  // Rebuild the current path with some outlets changed
+  private _applyOutletCommands(commands: OutletCommands): string {
+    let primary = this.currentPath || '/';
+    const outlets = { ...this.currentOutlets };
+    for (const [name, path] of Object.entries(commands.outlets)) {
+      if (name === PRIMARY_OUTLET) {
+        primary = path ?? '/';
+      } else if (path === null) {
+        delete outlets[name];
+      } else {
+        outlets[name] = path;
+      }
+    }
+    return serializeOutlets(primary, outlets);
+  }
+
+  // Top-level routes of an outlet; routes without an outlet belong to the primary one
+  private _matcherFor(name: string): RouteMatcher<Route> {
+    let matcher = this.matchers.get(name);
+    if (!matcher) {
+      matcher = new RouteMatcher(this.routes.filter((route) => (route.outlet ?? PRIMARY_OUTLET) === name), isPrefixRoute);
+      this.matchers.set(name, matcher);
+    }
+    return matcher;
+  }
+
+  private _outlet(name: string): OutletState {
+    let outlet = this.outlets.get(name);
+    if (!outlet) {
+      outlet = { element: null, views: [] };
+      this.outlets.set(name, outlet);
+    }
+    return outlet;
+  }
+
+  // Redirect or block a navigation a guard did not let through
+  private async _rejectNavigation(
+    id: number,
+    path: string,
+    guardResult: GuardResult,
+    request: NavigationRequest
+  ): Promise<NavigationResult> {
+    if (isRedirect(guardResult)) {
+      return await this._redirect(id, path, guardResult.toString(), request);
+    }
+
+    const reason = `Navigation to ${path} was blocked by a guard`;
+    this._emit(new NavigationCancel(id, path, reason, 'GuardRejected'));
+    this._restoreHistory(request);
+    return { status: 'cancelled', url: path, reason };
+  }
+
+  // Hand the navigation over to a redirect target, guarding against loops
+  private async _redirect(
+    id: number,
+    path: string,
+    redirectPath: string,
+    request: NavigationRequest
+  ): Promise<NavigationResult> {
+    const redirects = [...(request.redirects ?? []), path];
+    if (redirects.includes(redirectPath)) {
+      throw new Error(`Redirect loop detected: ${[...redirects, redirectPath].join(' -> ')}`);
+    }
+    if (redirects.length > this.maxRedirects) {
+      throw new Error(`Too many redirects (more than ${this.maxRedirects}) starting from ${redirects[0]}`);
+    }
+
+    this._emit(new NavigationCancel(id, path, `Redirecting to ${redirectPath}`, 'Redirect'));
+    if (this.activeNavigation?.id === id) {
+      this._hidePending(this.activeNavigation);
+    }
+    this.activeNavigation = null;
+
+    // The redirect takes the place of the original navigation: a back/forward one keeps the entry it moved to,
+    // so a blocked redirect can still step back and a successful one rewrites that entry
+    const result = await this._handleRouting(redirectPath, { ...request, redirects });
+    return { ...result, status: result.status === 'succeeded' ? 'redirected' : result.status, url: path };
+  }
+
+  // Write the committed navigation to the browser history
+  private _commitHistory(path: string, request: NavigationRequest): void {
+    // The previous view is still rendered, so this is where its entry was left
+    const position = this.scroller.getScrollPosition();
+
+    if (request.trigger === 'popstate') {
+      // The browser has already moved to the entry, so the position is only kept in memory
+      this.scrollPositions.set(this.currentPageId, position);
+      this.currentPageId = request.pageId ?? this.currentPageId;
+      // After a redirect the entry still holds the URL that was popped
+      if (request.redirects?.length) {
+        this.location.replaceState({ pageId: this.currentPageId, scroll: request.scroll }, path);
+      }
+    } else if (request.replace) {
+      this.location.replaceState({ pageId: this.currentPageId }, path);
+    } else {
+      // Store the position in the entry being left, so it survives a reload
+      if (this.currentUrl) {
+        this.location.replaceState({ pageId: this.currentPageId, scroll: position }, this.currentUrl);
+      }
+      this.scrollPositions.set(this.currentPageId, position);
+
+      // Entries ahead of the current one are gone once a new one is pushed
+      const pageId = this.currentPageId + 1;
+      for (const key of this.scrollPositions.keys()) {
+        if (key >= pageId) {
+          this.scrollPositions.delete(key);
         }
       }
+      this.location.pushState({ pageId }, path);
+      this.currentPageId = pageId;
+    }
+    this.currentUrl = path;
+  }
+
+  // Restore, reset or anchor the scroll position once the new view is rendered
+  private _scroll(request: NavigationRequest, fragment: string | undefined): void {
+    // Back/forward returns to where the entry was left, ahead of its anchor
+    const saved = request.trigger === 'popstate' && this.scrollPositionRestoration === 'restore'
+      ? this.scrollPositions.get(this.currentPageId) ?? request.scroll
+      : undefined;
+
+    if (saved) {
+      this.scroller.scrollToPosition(saved);
+      return;
+    }
+    if (this.anchorScrolling && fragment && this.scroller.scrollToAnchor(fragment)) {
+      return;
+    }
+    if (this.scrollPositionRestoration !== 'disabled') {
+      this.scroller.scrollToPosition([0, 0]);
+    }
+  }
+
+  // Undo the URL change of a back/forward navigation that did not go through
+  private _restoreHistory(request: NavigationRequest): void {
+    if (request.trigger !== 'popstate') {
+      return;
+    }
+
+    const delta = request.pageId === undefined ? 0 : this.currentPageId - request.pageId;
+    if (delta !== 0) {
+      // Step back to the entry we came from; the resulting popstate is ignored
+      this.restoringHistory = true;
+      this.location.go(delta);
     } else {
-      if (this.rootElement) {
-        this.rootElement.innerHTML = '<h1>404 - Page Not Found</h1>';
+      this.location.replaceState({ pageId: this.currentPageId }, this.currentUrl);
+    }
+  }
+
+  // Extend the chain through lazy routes, loading their children and matching the rest of the URL against them
+  private async _loadLazyChildren(
+    name: string,
+    chain: RouteMatch<Route>[],
+    signal: AbortSignal
+  ): Promise<{ chain: RouteMatch<Route>[]; unmatched: boolean } | { blocked: GuardResult }> {
+    let leaf = chain[chain.length - 1];
+
+    while (leaf.route.loadChildren) {
+      const route = leaf.route;
+
+      let children: LoadedChildren;
+      try {
+        // Like Angular, canLoad only runs until the children are loaded
+        if (!this.loadedChildren.has(route) && route.canLoad) {
+          const result = this._combineGuardResults(
+            await Promise.all(route.canLoad.map((guard) => guard.canLoad(route, signal)))
+          );
+          signal.throwIfAborted();
+          if (result !== true) {
+            return { blocked: result };
+          }
+        }
+
+        children = await this._loadChildren(route);
+      } catch (error) {
+        throw new RouteFailure(error, name, chain, chain.length - 1);
       }
+      signal.throwIfAborted();
+
+      // The lazy route keeps the URL its children do not match
+      const childChain = children.matcher.match(leaf.remainder ?? '');
+      if (!childChain) {
+        return { chain, unmatched: true };
+      }
+
+      // Loaded levels accumulate params on top of the lazy route's
+      const parentParams = leaf.params;
+      chain = [
+        ...chain.slice(0, -1),
+        { ...leaf, remainder: undefined },
+        ...childChain.map((match) => ({ ...match, params: { ...parentParams, ...match.params } })),
+      ];
+      leaf = chain[chain.length - 1];
     }
 
-    window.dispatchEvent(
-      new CustomEvent('routechange', {
-        detail: { path, params, query },
-      })
-    );
+    // URL left below a prefix route that is not a redirect is matched by none of its children
+    return { chain, unmatched: leaf.remainder !== undefined && leaf.route.redirectTo === undefined };
   }
 
-  // Render an Angular component
-  private _renderAngularComponent(component: Type<any>, activatedRoute: ActivatedRoute): void {
-    // Clean up the previous component and module
-    if (this.currentComponentRef) {
-      this.currentComponentRef.destroy();
+  // Replace the unmatched part of a chain with the nearest notFoundComponent up the routes that did match;
+  // above all of them, the configured one takes the whole outlet when allowed
+  private _notFoundChain(chain: RouteMatch<Route>[] | null, path: string, topLevel: boolean): RouteMatch<Route>[] | null {
+    const matched = chain ?? [];
+    for (let level = matched.length - 1; level >= 0; level--) {
+      const owner = matched[level];
+      if (owner.route.notFoundComponent) {
+        // Segments the levels below the owner consumed are part of what went unmatched
+        const segments = [
+          ...matched.slice(level + 1).flatMap((match) => match.segments),
+          ...(matched[matched.length - 1].remainder ?? '').split('/').filter(Boolean),
+        ];
+        const route = this._notFoundRoute(owner.route, owner.route.notFoundComponent);
+        return [...matched.slice(0, level), { ...owner, remainder: undefined }, { route, params: owner.params, segments }];
+      }
     }
-    if (this.currentModuleRef) {
-      this.currentModuleRef.destroy(); // Destroy the module reference
-      this.currentModuleRef = null;
+
+    if (!topLevel || !this.notFoundComponent) {
+      return null;
     }
+    return [{ route: this._notFoundRoute(null, this.notFoundComponent), params: {}, segments: path.split('/').filter(Boolean) }];
+  }
 
-    // Create the component dynamically
-    this.currentComponentRef = createComponent(component, {
-      environmentInjector: this.environmentInjector,
-    });
+  // Route rendering the notFoundComponent below its owner; kept, so a not-found view is reused like any other leaf
+  private _notFoundRoute(owner: Route | null, component: RouteComponent): Route {
+    let route = this.notFoundRoutes.get(owner);
+    if (!route) {
+      route = { path: '**', component };
+      this.notFoundRoutes.set(owner, route);
+    }
+    return route;
+  }
 
-    // Pass ActivatedRoute data as input properties
-    if (this.currentComponentRef.instance.routeData) {
-      this.currentComponentRef.instance.routeData = activatedRoute;
+  private _setResponseStatus(status: number): void {
+    if (this.responseStatus.value !== status) {
+      this.responseStatus.next(status);
     }
+  }
 
-    if (this.rootElement) {
-      this.rootElement.innerHTML = ''; // Clear the root element
-      this.rootElement.appendChild(this.currentComponentRef.location.nativeElement);
+  // Load the children of a lazy route once; a failed load is forgotten so the next attempt retries it
+  private _loadChildren(route: Route): Promise<LoadedChildren> {
+    let loading = this.loadedChildren.get(route);
+    if (!loading) {
+      loading = route.loadChildren!().then((loaded) => {
+        const routes = Array.isArray(loaded) ? loaded : loaded.default;
+        return { routes, matcher: new RouteMatcher(routes, isPrefixRoute) };
+      });
+      loading.catch(() => this.loadedChildren.delete(route));
+      this.loadedChildren.set(route, loading);
     }
+    return loading;
   }
 
-  // Find the matching route
-  private _findMatchingRoute(routes: Route[], path: string): Route | null {
-    let bestMatch: Route | null = null;
-    let bestMatchLength = -1;
+  // Load the component of a route once, sharing the load between navigation and preloading
+  private _loadComponent(route: Route): Promise<RouteComponent> {
+    let loading = this.loadedComponents.get(route);
+    if (!loading) {
+      // Modules loaded with import() hand over their default export
+      loading = route.loadComponent!().then((loaded: any) =>
+        loaded && typeof loaded === 'object' && 'default' in loaded ? loaded.default : loaded
+      );
+      loading.catch(() => this.loadedComponents.delete(route));
+      this.loadedComponents.set(route, loading);
+    }
+    return loading;
+  }
 
-    for (const route of routes) {
-        const regex = this._convertPathToRegex(route.path);
-        const match = path.match(regex);
+  // Load what a lazy route defines, for the preloader
+  private async _preloadRoute(route: Route): Promise<Route[]> {
+    const [, children] = await Promise.all([
+      route.loadComponent ? this._loadComponent(route) : null,
+      route.loadChildren ? this._loadChildren(route) : null,
+    ]);
+    return children?.routes ?? [];
+  }
 
-        if (match) {
-            const matchedLength = match[0].length;
+  // Load the lazy routes on the way to a URL, stopping at routes with canLoad guards
+  private async _preloadUrl(url: string): Promise<void> {
+    let chain = this._matcherFor(PRIMARY_OUTLET).match(parseOutlets(parseUrl(url).path).primary);
 
-            if (matchedLength > bestMatchLength) {
-                bestMatch = route;
-                bestMatchLength = matchedLength;
-            }
-        }
+    while (chain) {
+      const lazy = chain.filter(({ route }) => !route.canLoad && route.loadComponent);
+      await Promise.all(lazy.map(({ route }) => this._loadComponent(route)));
+
+      const leaf = chain[chain.length - 1];
+      if (!leaf.route.loadChildren || (leaf.route.canLoad && !this.loadedChildren.has(leaf.route))) {
+        return;
+      }
+      const children = await this._loadChildren(leaf.route);
+      chain = children.matcher.match(leaf.remainder ?? '');
     }
+  }
 
-    return bestMatch ?? routes.find(r => r.path === '*') ?? null;
-}
+  // Parents stay mounted while they match the same route and URL segments; the leaf is always re-activated,
+  // unless the chain is still to be extended by lazy children
+  private _countReusedLevels(outlet: OutletState, chain: RouteMatch<Route>[], complete = true): number {
+    let reused = 0;
+    while (
+      reused < chain.length - (complete ? 1 : 0) &&
+      reused < outlet.views.length &&
+      isSameMatch(outlet.views[reused].match, chain[reused])
+    ) {
+      reused++;
+    }
+    return reused;
+  }
 
-private _convertPathToRegex(path: string): RegExp {
-    const regexPath = path
-        .replace(/\/:([^/]+)/g, '/([^/]+)')
-        .replace(/\*/g, '.*');
+  // Build the target route snapshot of every level, inheriting static data down the tree
+  private _createTargets(
+    outlet: OutletState,
+    chain: RouteMatch<Route>[],
+    queryParams: QueryParams,
+    fragment: string | undefined,
+    path: string,
+    reused: number
+  ): ActivatedRouteSnapshot[] {
+    const targets: ActivatedRouteSnapshot[] = [];
+    chain.forEach((match, level) => {
+      // Reused levels keep the data they resolved when they were activated
+      const inherited = level < reused
+        ? outlet.views[level].activatedRoute.data
+        : { ...this._inheritedData(chain, targets, level), ...match.route.data };
+      targets.push({ params: match.params, queryParams, fragment, path, data: inherited });
+    });
+    return targets;
+  }
 
-    return new RegExp(`^${regexPath}$`);
+  // Data a level inherits from its parent under the configured paramsInheritanceStrategy
+  private _inheritedData(chain: RouteMatch<Route>[], targets: ActivatedRouteSnapshot[], level: number): Record<string, any> {
+    if (level === 0) {
+      return {};
+    }
+
+    const parent = chain[level - 1].route;
+    const isComponentless = !parent.component && !parent.loadComponent;
+    const inherits =
+      this.paramsInheritanceStrategy === 'always' || chain[level].route.path === '' || isComponentless;
+    return inherits ? { ...targets[level - 1].data } : {};
   }
 
-  // Parse the path and query parameters
-  private _parsePath(path: string): {
-    pathname: string;
-    params: Record<string, string>;
-    query: Record<string, string>;
-  } {
-    const [pathname, queryString] = path.split('?');
-    const query: Record<string, string> = {};
-    const params: Record<string, string> = {};
-
-    // Process query parameters
-    if (queryString) {
-      queryString.split('&').forEach((param) => {
-        const [key, value] = param.split('=');
-        if (key) {
-          query[key] = value ? decodeURIComponent(value) : '';
+  // Run resolvers from the root down, so children see the data their parents resolved
+  private async _resolveData(
+    { name, targets, reused }: OutletNavigation,
+    chain: RouteMatch<Route>[],
+    signal: AbortSignal
+  ): Promise<UrlTree | null> {
+    for (let level = reused; level < chain.length; level++) {
+      const route = chain[level].route;
+      const target = targets[level];
+      target.data = { ...this._inheritedData(chain, targets, level), ...route.data };
+
+      if (!route.resolve) {
+        continue;
+      }
+
+      const resolvedData: Record<string, any> = {};
+      let resolveRedirect: UrlTree | null = null;
+      await Promise.all(
+        Object.entries(route.resolve).map(async ([key, resolver]) => {
+          // A resolver that cannot produce its data may return or throw a UrlTree to redirect
+          try {
+            const value = await resolver.resolve(target, signal);
+            if (value instanceof UrlTree) {
+              resolveRedirect ??= value;
+            } else {
+              resolvedData[key] = value;
+            }
+          } catch (error) {
+            if (!(error instanceof UrlTree)) {
+              throw error;
+            }
+            resolveRedirect ??= error;
+          }
+        })
+      ).catch((error) => {
+        throw new RouteFailure(error, name, chain, level);
+      });
+      signal.throwIfAborted();
+
+      if (resolveRedirect) {
+        return resolveRedirect;
+      }
+      target.data = { ...target.data, ...resolvedData }; // Merge route data with resolved data
+    }
+    return null;
+  }
+
+  // Run deactivation guards from the leaf up, then child and activation guards from the root down
+  private async _checkGuards(
+    { name, state, chain, targets, reused }: OutletNavigation,
+    signal: AbortSignal
+  ): Promise<GuardResult> {
+    // Check deactivation guards of the views being left
+    for (let level = state.views.length - 1; level >= reused; level--) {
+      const view = state.views[level];
+      if (view.match.route.canDeactivate) {
+        const canDeactivateResults = await Promise.all(
+          view.match.route.canDeactivate.map((guard) => guard.canDeactivate(view.activatedRoute.snapshot, signal))
+        );
+
+        if (canDeactivateResults.some((result) => !result)) {
+          return false;
         }
+      }
+    }
+
+    if (!chain) {
+      return true;
+    }
+
+    for (let level = reused; level < chain.length; level++) {
+      const result = await this._checkActivation(chain, targets[level], level, signal).catch((error) => {
+        throw new RouteFailure(error, name, chain, level);
       });
+      if (result !== true) {
+        return result;
+      }
     }
 
-    // Find matching route and extract parameters
-    const route = this._findMatchingRoute(this.routes, pathname);
-    if (route) {
-      this._extractRouteParams(route, pathname, params);
+    return true;
+  }
+
+  // Run the guards a level has to pass to be activated
+  private async _checkActivation(
+    chain: RouteMatch<Route>[],
+    target: ActivatedRouteSnapshot,
+    level: number,
+    signal: AbortSignal
+  ): Promise<GuardResult> {
+    const route = chain[level].route;
+
+    // Check child guards of every ancestor, reused ones included, from the root down; they protect every route below them
+    for (const { route: ancestor } of chain.slice(0, level)) {
+      if (!ancestor.canActivateChild) {
+        continue;
+      }
+      const canActivateChildResults = await Promise.all(
+        ancestor.canActivateChild.map((guard) => guard.canActivateChild(target, signal))
+      );
+
+      const result = this._combineGuardResults(canActivateChildResults);
+      if (result !== true) {
+        return result;
+      }
     }
 
-    return { pathname, params, query };
+    // Check route guards
+    if (route.canActivate) {
+      const canActivateResults = await Promise.all(
+        route.canActivate.map((guard) => guard.canActivate(target, signal))
+      );
+
+      const result = this._combineGuardResults(canActivateResults);
+      if (result !== true) {
+        return result;
+      }
+    }
+
+    // Check lazy loading guards; lazy children have been checked before they loaded
+    if (route.canLoad && route.loadComponent) {
+      const canLoadResults = await Promise.all(
+        route.canLoad.map((guard) => guard.canLoad(route, signal))
+      );
+
+      return this._combineGuardResults(canLoadResults);
+    }
+
+    return true;
+  }
+
+  // The first redirect in declaration order wins, otherwise any false blocks the navigation
+  private _combineGuardResults(results: GuardResult[]): GuardResult {
+    const redirect = results.find(isRedirect);
+    if (redirect !== undefined) {
+      return redirect;
+    }
+    return results.every((result) => result === true);
+  }
+
+  // Publish a router event to subscribers
+  private _emit(event: RouterEvent): void {
+    if (this.enableTracing) {
+      console.log(`Router event: ${event.type}`, event);
+    }
+    this.events.emit(event);
+  }
+
+  // Load the views of an outlet navigation; the returned swap renders them, or empties an outlet that closes
+  private _prepareOutlet({ name, state, chain, targets }: OutletNavigation, signal: AbortSignal): Promise<() => LeavingView[]> {
+    return chain ? this._prepareChain(name, state, chain, targets, signal) : Promise.resolve(() => this._clearOutlet(state));
+  }
+
+  // Render the matched chain into nested outlets, reusing the views that show the same routes.
+  // Loads happen now; the returned swap renders and hands back the views it took out.
+  // A failure renders the chain down to the nearest errorComponent above the failed level.
+  private async _prepareChain(
+    name: string,
+    outlet: OutletState,
+    chain: RouteMatch<Route>[],
+    targets: ActivatedRouteSnapshot[],
+    signal: AbortSignal,
+    failure: RouteFailure | null = null
+  ): Promise<() => LeavingView[]> {
+    const boundary = failure ? this._errorBoundary(failure.chain, failure.level) : null;
+    const end = failure ? boundary?.level ?? failure.level : chain.length;
+
+    // A view is reused while its route is unchanged, even when params or query params differ
+    let keep = 0;
+    while (
+      keep < end &&
+      keep < outlet.views.length &&
+      outlet.views[keep].match.route === chain[keep].route &&
+      !outlet.views[keep].failed
+    ) {
+      keep++;
+    }
+
+    // Load every new level before touching the DOM, so a superseded navigation renders nothing
+    const components = await Promise.all(
+      chain.slice(keep, end).map((match, index) =>
+        this._loadRoute(match.route).catch((error) => {
+          throw new RouteFailure(error, name, chain, keep + index);
+        })
+      )
+    );
+    signal.throwIfAborted();
+
+    return () => {
+      // The swap runs once the navigation is committed, so the current URL is the one that failed
+      const url = this.currentUrl;
+      const leaving = this._detachViews(outlet, keep);
+      try {
+        this._renderLevels(name, outlet, chain, targets, keep, components);
+        if (failure && boundary) {
+          const error: RouteError = {
+            error: failure.error,
+            route: failure.chain[failure.level].route,
+            retry: () => this.navigate(url, { replace: true }),
+          };
+          this._renderError(outlet, chain[end], targets[end], end, boundary.component, error);
+        }
+      } catch (error) {
+        // Neither the levels mounted so far nor the views taken out stay behind
+        this._destroyViews(outlet, keep);
+        leaving.forEach((view) => view.destroy());
+        throw error;
+      }
+      return leaving;
+    };
   }
 
-  private _extractRouteParams(route: Route, pathname: string, params: Record<string, string>): void {
-    const routeSegments = route.path.split('/').filter(Boolean);
-    const pathSegments = pathname.split('/').filter(Boolean);
+  // Update the reused levels and mount the loaded ones below them; a failing mount is tagged with its level
+  private _renderLevels(
+    name: string,
+    outlet: OutletState,
+    chain: RouteMatch<Route>[],
+    targets: ActivatedRouteSnapshot[],
+    keep: number,
+    components: (RouteComponent | null)[]
+  ): void {
+    // Reused views keep their component instance and receive the new state through their ActivatedRoute
+    for (let level = 0; level < keep; level++) {
+      const view = outlet.views[level];
+      view.match = chain[level];
+      view.activatedRoute.update(targets[level]);
+      if (view.renderer && view.rendered) {
+        view.renderer.update(view.rendered, this._renderContext(outlet, level, view));
+      }
+    }
 
-    for (let i = 0; i < routeSegments.length && i < pathSegments.length; i++) {
-      const routeSegment = routeSegments[i];
-      const pathSegment = pathSegments[i];
+    components.forEach((component, index) => {
+      const level = keep + index;
+      const view = this._createView(outlet, chain[level], targets[level], level);
 
-      if (routeSegment.startsWith(':')) {
-        const paramName = routeSegment.slice(1);
-        params[paramName] = pathSegment;
+      // Componentless levels pass their outlet straight through to the child
+      if (component) {
+        try {
+          const renderer = this._rendererFor(component, view.match.route);
+          this._mountView(view, renderer, renderer.mount(component, this._renderContext(outlet, level, view, renderer)));
+        } catch (error) {
+          throw new RouteFailure(error, name, chain, level);
+        }
       }
+    });
+  }
+
+  // Mount an errorComponent as the view of the boundary level; nothing below it is rendered
+  private _renderError(
+    outlet: OutletState,
+    match: RouteMatch<Route>,
+    target: ActivatedRouteSnapshot,
+    level: number,
+    component: RouteComponent,
+    error: RouteError
+  ): void {
+    const view = this._createView(outlet, match, target, level);
+    view.failed = true;
+    const renderer = this._rendererFor(component, match.route);
+    this._mountView(view, renderer, renderer.error(error, component, this._renderContext(outlet, level, view, renderer)));
+  }
+
+  // Add a level to an outlet, placed into the outlet of its parent until it renders one of its own
+  private _createView(outlet: OutletState, match: RouteMatch<Route>, target: ActivatedRouteSnapshot, level: number): ActiveView {
+    const parent = level === 0 ? undefined : outlet.views[level - 1];
+    const view: ActiveView = {
+      match,
+      activatedRoute: new ActivatedRoute(target),
+      renderer: null,
+      rendered: null,
+      scopes: this._createScopes(match.route, parent),
+      outlet: parent ? parent.outlet : outlet.element,
+    };
+    outlet.views.push(view);
+    return view;
+  }
+
+  // Load the component of a route, null for componentless routes
+  private async _loadRoute(route: Route): Promise<RouteComponent | null> {
+    if (route.component) {
+      return route.component;
+    }
+    return route.loadComponent ? await this._loadComponent(route) : null;
+  }
+
+  // First configured renderer able to render the component
+  private _rendererFor(component: RouteComponent, route: Route): RouteRenderer {
+    const renderer = this.renderers.find((candidate) => candidate.supports(component));
+    if (!renderer) {
+      throw new Error(`No renderer supports the component of route '${route.path}'`);
+    }
+    return renderer;
+  }
+
+  // What a renderer sees of a level; the view is placed into the outlet of its parent
+  private _renderContext(
+    outlet: OutletState,
+    level: number,
+    view: ActiveView,
+    renderer: RouteRenderer | null = view.renderer
+  ): RenderContext {
+    const parent = level === 0 ? undefined : outlet.views[level - 1];
+    return {
+      route: view.match.route,
+      activatedRoute: view.activatedRoute,
+      outlet: parent ? parent.outlet : outlet.element,
+      scope: renderer ? view.scopes.get(renderer) : undefined,
+    };
+  }
+
+  private _mountView(view: ActiveView, renderer: RouteRenderer, rendered: MountedView): void {
+    view.renderer = renderer;
+    view.rendered = rendered;
+    view.outlet = rendered.outlet;
+    this._callHook(view, 'onActivate');
+  }
+
+  // Call a lifecycle hook of a rendered view; a failing hook does not stop the others
+  private _callHook(view: ActiveView, hook: keyof RouteViewHooks): void {
+    const instance = view.rendered?.instance as RouteViewHooks | null | undefined;
+    try {
+      instance?.[hook]?.(view.activatedRoute);
+    } catch (error) {
+      console.error(`The ${hook} hook of route '${view.match.route.path}' failed:`, error);
+    }
+  }
+
+  // Each renderer may scope state, such as Angular environment injectors, to a level and the levels below it
+  private _createScopes(route: Route, parent: ActiveView | undefined): Map<RouteRenderer, unknown> {
+    const scopes = new Map<RouteRenderer, unknown>();
+    for (const renderer of this.renderers) {
+      const inherited = parent?.scopes.get(renderer);
+      scopes.set(renderer, renderer.createScope ? renderer.createScope(route, inherited) : inherited);
+    }
+    return scopes;
+  }
+
+  // Destroy active views from the given level down to the leaf
+  private _destroyViews(outlet: OutletState, fromLevel: number): void {
+    this._detachViews(outlet, fromLevel).forEach((leaving) => leaving.destroy());
+  }
+
+  // Take the views from the given level down out of an outlet; they stay mounted until the leaving view is destroyed
+  private _detachViews(outlet: OutletState, fromLevel: number): LeavingView[] {
+    const parent = outlet.views[fromLevel - 1];
+    const detached = outlet.views.splice(fromLevel);
+    if (!detached.length) {
+      return [];
     }
 
-    // Recursively extract parameters from child routes
-    if (route.children) {
-      const remainingPath = pathSegments.slice(routeSegments.length).join('/');
-      const childRoute = this._findMatchingRoute(route.children, remainingPath);
-      if (childRoute) {
-        this._extractRouteParams(childRoute, remainingPath, params);
+    [...detached].reverse().forEach((view) => this._callHook(view, 'onDeactivate'));
+    return [
+      {
+        element: parent ? parent.outlet : outlet.element,
+        nodes: detached.find((view) => view.rendered)?.rendered?.nodes ?? [],
+        destroy: () => this._destroyDetached(detached, parent),
+      },
+    ];
+  }
+
+  // Unmount detached views from the leaf up, ending the scopes each level created itself
+  private _destroyDetached(views: ActiveView[], parent: ActiveView | undefined): void {
+    for (let level = views.length - 1; level >= 0; level--) {
+      const view = views[level];
+      if (view.renderer && view.rendered) {
+        view.renderer.unmount(view.rendered);
+        this._callHook(view, 'onDestroy');
       }
+
+      const parentView = level > 0 ? views[level - 1] : parent;
+      for (const [renderer, scope] of view.scopes) {
+        if (scope !== parentView?.scopes.get(renderer)) {
+          renderer.destroyScope?.(scope);
+        }
+      }
+    }
+  }
+
+  // Empty an outlet nothing matched, or a named outlet being closed
+  private _clearOutlet(outlet: OutletState): LeavingView[] {
+    const leaving = this._detachViews(outlet, 0);
+    outlet.element?.replaceChildren();
+    return leaving;
+  }
+
+  // Show the loading components of the outlets a navigation enters once it has run for pendingMs,
+  // from the levels matched so far, e.g. while lazy children still load
+  private _schedulePending(active: ActiveNavigation): void {
+    active.pendingTimer = setTimeout(() => {
+      active.pendingTimer = undefined;
+      active.matched.forEach((matched, name) => this._showPending(active, name, matched));
+    }, this.pendingMs);
+  }
+
+  // The nearest loadingComponent up the target routes takes the place of the levels being entered
+  private _showPending(
+    active: ActiveNavigation,
+    name: string,
+    { chain, complete }: { chain: RouteMatch<Route>[]; complete: boolean }
+  ): void {
+    if (active.controller.signal.aborted) {
+      return;
+    }
+    const state = this._outlet(name);
+    const reused = this._countReusedLevels(state, chain, complete);
+    const parent = state.views[reused - 1];
+    const outlet = parent ? parent.outlet : state.element;
+    const owner = [...chain].reverse().find((match) => match.route.loadingComponent)?.route;
+    const component = owner?.loadingComponent ?? this.loadingComponent;
+    if (!outlet || !component) {
+      return;
+    }
+
+    const { pathname, outlets, query, fragment } = this._parsePath(active.url);
+    const path = name === PRIMARY_OUTLET ? pathname : outlets[name];
+    const targets = this._createTargets(state, chain, query, fragment, path, reused);
+    const route = owner ?? chain[chain.length - 1].route;
+    try {
+      const renderer = this._rendererFor(component, route);
+      const previous = [...outlet.childNodes];
+      const rendered = renderer.mount(component, {
+        route,
+        activatedRoute: new ActivatedRoute(targets[targets.length - 1]),
+        outlet,
+        scope: parent?.scopes.get(renderer),
+      });
+      active.pendingViews.push({ outlet, previous, renderer, rendered, shownAt: Date.now() });
+    } catch (error) {
+      console.error('Failed to render the loading component:', error);
+    }
+  }
+
+  // Loading components stay up for pendingMinMs once shown, so they do not flicker
+  private async _settlePending(active: ActiveNavigation): Promise<void> {
+    clearTimeout(active.pendingTimer);
+    const shownAt = active.pendingViews[0]?.shownAt;
+    const remaining = shownAt === undefined ? 0 : shownAt + this.pendingMinMs - Date.now();
+    if (remaining > 0) {
+      await new Promise((resolve) => setTimeout(resolve, remaining));
     }
   }
 
+  // Remove the loading components of a navigation, putting back what their outlets showed
+  private _hidePending(active: ActiveNavigation): void {
+    clearTimeout(active.pendingTimer);
+    for (const view of active.pendingViews.splice(0).reverse()) {
+      view.renderer.unmount(view.rendered);
+      view.outlet.replaceChildren(...view.previous);
+    }
+  }
+
+  // Transition of a navigation, named by the data of the first route it enters; nothing animates on the first render
+  private _transitionName(navigations: OutletNavigation[]): string | null {
+    if (!this.currentUrl) {
+      return null;
+    }
+    const entering = navigations.find(({ chain }) => chain);
+    const name = entering?.targets[entering.targets.length - 1].data?.['transition'];
+    return name === false ? null : typeof name === 'string' ? name : 'route';
+  }
+
+  // Parse the primary path, named outlet paths, query parameters and fragment
+  private _parsePath(path: string): {
+    pathname: string;
+    outlets: Record<string, string>;
+    query: QueryParams;
+    fragment: string | undefined;
+  } {
+    const { path: fullPath, queryParams: query, fragment } = parseUrl(path);
+    const { primary: pathname, outlets } = parseOutlets(fullPath);
+    return { pathname, outlets, query, fragment };
+  }
+
   // Navigate to the current URL
-  private _navigateToCurrentUrl(): void {
-    const currentPath = window.location.pathname + window.location.search;
-    this._handleRouting(currentPath);
+  // Nothing to route while the URL is outside the base href
+  private _navigateToCurrentUrl(): Promise<NavigationResult | null> {
+    const currentPath = this.location.path();
+    return currentPath === null ? Promise.resolve(null) : this._handleRouting(currentPath, { trigger: 'imperative', replace: true });
+  }
+
+  private _usesBrowserHistory(): boolean {
+    return this.location instanceof PathLocationStrategy || this.location instanceof HashLocationStrategy;
   }
 
   // Bind event listeners
   private _bindEvents(): void {
-    window.addEventListener('popstate', this._handlePopState);
-    document.addEventListener('click', this._handleClick);
+    this.removePopStateListener = this.location.onPopState(this._handlePopState);
+    // Links are only intercepted where there is a document
+    this.document?.addEventListener('click', this._handleClick);
+  }
+
+  // Remove the listeners added by _bindEvents
+  private _unbindEvents(): void {
+    this.removePopStateListener?.();
+    this.removePopStateListener = null;
+    this.document?.removeEventListener('click', this._handleClick);
   }
 
   // Handle popstate events
-  private _handlePopState(): void {
-    const currentPath = window.location.pathname + window.location.search;
-    this._handleRouting(currentPath);
+  private _handlePopState(state: any): void {
+    if (this.restoringHistory) {
+      this.restoringHistory = false;
+      return;
+    }
+
+    const currentPath = this.location.path();
+    // Entries outside the base href belong to another app sharing the history
+    if (currentPath === null) {
+      return;
+    }
+    this._handleRouting(currentPath, { trigger: 'popstate', replace: false, pageId: state?.pageId, scroll: state?.scroll });
   }
 
   // Handle link clicks
   private _handleClick(e: MouseEvent): void {
     const link = (e.target as HTMLElement).closest('a');
-    if (!link) return;
+    if (!link || e.defaultPrevented) return;
+
+    if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey || e.button !== 0) {
+      return;
+    }
+
+    const url = this._linkUrl(link);
+    if (url !== null) {
+      e.preventDefault();
+      this.navigate(url);
+    }
+  }
 
+  // Router URL of a link the router handles, null for links the browser should follow
+  private _linkUrl(link: HTMLAnchorElement): string | null {
+    const href = link.getAttribute('href');
     if (
+      !href ||
+      href.startsWith('#') || // In-page anchors, and the routes of a HashLocationStrategy, which the browser pops to
       link.target === '_blank' ||
       link.hasAttribute('download') ||
-      link.href.startsWith('mailto:') ||
-      link.href.startsWith('tel:') ||
-      link.href.indexOf('://') !== -1 ||
-      e.metaKey || e.ctrlKey || e.shiftKey || e.altKey || e.button !== 0
+      href.startsWith('mailto:') ||
+      href.startsWith('tel:') ||
+      href.indexOf('://') !== -1 ||
+      link.origin !== window.location.origin // e.g. protocol-relative //cdn.example.com/x
     ) {
-      return;
+      return null;
     }
 
-    const href = link.getAttribute('href');
-    if (href && href.startsWith('/')) {
-      e.preventDefault();
-      this.navigate(href);
+    // Relative hrefs are resolved by the browser against the <base href>;
+    // links outside the base href belong to another app, e.g. a sibling micro-frontend
+    return this.location.stripBaseHref(link.pathname + link.search + link.hash);
+  }
+}
+
+// Run the swap of every outlet, even after one failed to mount, so the others still show the committed URL;
+// the first failure is rethrown once the views taken out are destroyed
+function runSwaps(swaps: (() => LeavingView[])[]): LeavingView[] {
+  const leaving: LeavingView[] = [];
+  const failures: unknown[] = [];
+  for (const swap of swaps) {
+    try {
+      leaving.push(...swap());
+    } catch (error) {
+      failures.push(error);
     }
   }
+
+  if (failures.length) {
+    leaving.forEach((view) => view.destroy());
+    throw failures[0];
+  }
+  return leaving;
+}
+
+// Lazy routes are matched as a prefix until their children are loaded, routes with a notFoundComponent always
+function isPrefixRoute(route: Route): boolean {
+  return !!route.loadChildren || !!route.notFoundComponent;
+}
+
+// Remembers the URL a chunk error reloaded the page for, so it only happens once until a navigation succeeds
+const CHUNK_RELOAD_KEY = 'vanilla-router:chunk-reload';
+
+// sessionStorage is missing on the server and in workers, and throws where storage is blocked
+function readChunkReload(): string | null {
+  try {
+    return sessionStorage.getItem(CHUNK_RELOAD_KEY);
+  } catch {
+    return null;
+  }
+}
+
+// Set or clear the marker; false when it cannot be stored
+function writeChunkReload(url: string | null): boolean {
+  try {
+    if (url === null) {
+      sessionStorage.removeItem(CHUNK_RELOAD_KEY);
+    } else {
+      sessionStorage.setItem(CHUNK_RELOAD_KEY, url);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Error of a guard, resolver, load or mount, tagged with the outlet and route level it came from
+class RouteFailure {
+  constructor(
+    readonly error: unknown,
+    readonly outlet: string,
+    readonly chain: RouteMatch<Route>[],
+    readonly level: number
+  ) {}
+}
+
+// Lazy chunks the server no longer has, as reported by webpack and by the browsers' import()
+function isChunkLoadError(error: unknown): boolean {
+  const { name, message } = (error ?? {}) as { name?: unknown; message?: unknown };
+  return (
+    name === 'ChunkLoadError' ||
+    (typeof message === 'string' &&
+      /loading chunk|dynamically imported module|importing a module script failed/i.test(message))
+  );
 }
@@ -0,0 +1,50 @@
+// Element whose scroll position the router manages; a function is looked up on every use, e.g. once a template has rendered
+export type ScrollContainer = Window | HTMLElement | (() => Window | HTMLElement | null);
+
+// Reads and sets the scroll position of the window or of a scrollable element; outside the browser nothing scrolls
+export class ViewportScroller {
+  // Defaults to the window, where there is one
+  constructor(private container?: ScrollContainer) {}
+
+  getScrollPosition(): [number, number] {
+    const target = this._target();
+    if (!target) {
+      return [0, 0];
+    }
+    return isWindow(target) ? [target.scrollX, target.scrollY] : [target.scrollLeft, target.scrollTop];
+  }
+
+  scrollToPosition([x, y]: [number, number]): void {
+    this._target()?.scrollTo(x, y);
+  }
+
+  // Scroll the element with the anchor as id, or else as name, into view; false when there is none
+  scrollToAnchor(anchor: string): boolean {
+    if (typeof document === 'undefined') {
+      return false;
+    }
+    const element = document.getElementById(anchor) ?? document.getElementsByName(anchor)[0];
+    if (!element) {
+      return false;
+    }
+    element.scrollIntoView();
+    return true;
+  }
+
+  // Whether the browser's own restoration must be turned off for ours to work
+  get isWindow(): boolean {
+    const target = this._target();
+    return !!target && isWindow(target);
+  }
+
+  private _target(): Window | HTMLElement | null {
+    if (typeof this.container === 'function') {
+      return this.container();
+    }
+    return this.container ?? (typeof window !== 'undefined' ? window : null);
+  }
+}
+
+function isWindow(target: Window | HTMLElement): target is Window {
+  return typeof Window !== 'undefined' && target instanceof Window;
+}
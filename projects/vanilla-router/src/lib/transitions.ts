@@ -0,0 +1,76 @@
+// Views a navigation took out of an outlet, kept mounted until they have left
+export interface LeavingView {
+  element: HTMLElement | null; // Outlet element the views showed in
+  nodes: Node[]; // Their top-level nodes in that element
+  destroy(): void;
+}
+
+// Animates the DOM swap of a navigation: a view transition where the browser has them,
+// otherwise old and new views stay mounted together under <name>-leave and <name>-enter classes
+export class RouteTransitions {
+  private leaving = new Set<LeavingView>();
+
+  constructor(private enabled: boolean) {}
+
+  // Run a swap, which mounts the new views and returns the ones it took out; a null name swaps instantly,
+  // as does everything outside the browser
+  async run(name: string | null, swap: () => LeavingView[]): Promise<void> {
+    if (!this.enabled || name === null || typeof document === 'undefined') {
+      swap().forEach((view) => view.destroy());
+      return;
+    }
+
+    if ('startViewTransition' in document) {
+      // The browser animates between snapshots, so the old views can go as soon as the new ones are in.
+      // Style it with e.g. [data-route-transition="slide"]::view-transition-old(root)
+      const root = document.documentElement;
+      root.dataset['routeTransition'] = name;
+      const transition = document.startViewTransition(() => swap().forEach((view) => view.destroy()));
+      const clear = () => {
+        if (root.dataset['routeTransition'] === name) {
+          delete root.dataset['routeTransition'];
+        }
+      };
+      transition.finished.then(clear, clear);
+      await transition.updateCallbackDone;
+      return;
+    }
+
+    swap().forEach((view) => this._leave(view, name));
+  }
+
+  // Destroy the views still leaving, e.g. when the router is destroyed
+  flush(): void {
+    this.leaving.forEach((view) => view.destroy());
+    this.leaving.clear();
+  }
+
+  private async _leave(view: LeavingView, name: string): Promise<void> {
+    const element = view.element;
+    const leavingElements = view.nodes.filter((node): node is Element => node instanceof Element);
+    if (!element || !leavingElements.length) {
+      view.destroy();
+      return;
+    }
+
+    // Put the old view back in front of the new one for the length of the animations
+    const entering = [...element.children].filter((child) => !view.nodes.includes(child));
+    element.prepend(...view.nodes);
+    leavingElements.forEach((node) => node.classList.add(`${name}-leave`));
+    entering.forEach((node) => node.classList.add(`${name}-enter`));
+    this.leaving.add(view);
+
+    await whenAnimationsFinish([...leavingElements, ...entering]);
+    entering.forEach((node) => node.classList.remove(`${name}-enter`));
+    if (this.leaving.delete(view)) {
+      view.destroy();
+    }
+  }
+}
+
+// Wait for the CSS animations and transitions running on the elements and their descendants
+function whenAnimationsFinish(elements: Element[]): Promise<unknown> {
+  const animations = elements.flatMap((element) => element.getAnimations?.({ subtree: true }) ?? []);
+  // A cancelled animation counts as finished
+  return Promise.all(animations.map((animation) => animation.finished.catch(() => undefined)));
+}
@@ -0,0 +1,72 @@
+import { UrlTree, parseOutlets, parseQueryParams, parseUrl, serializeOutlets, serializeQueryParams } from './url-tree';
+
+describe('parseQueryParams', () => {
+  it('decodes keys and values, with + as a space', () => {
+    expect({ ...parseQueryParams('?q=a+b%26c&empty=&flag') }).toEqual({ q: 'a b&c', empty: '', flag: '' });
+  });
+
+  it('splits on the first = only', () => {
+    expect(parseQueryParams('expr=a=b')['expr']).toBe('a=b');
+  });
+
+  it('collects repeated keys in order', () => {
+    expect(parseQueryParams('tag=a&tag=b&tag=c')['tag']).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps keys named like Object.prototype members as plain params', () => {
+    const params = parseQueryParams('constructor=x&toString=1&__proto__=a&__proto__=b');
+
+    expect(params['constructor']).toBe('x');
+    expect(params['toString']).toBe('1');
+    expect(params['__proto__']).toEqual(['a', 'b']);
+    expect(Object.keys(params)).toEqual(['constructor', 'toString', '__proto__']);
+  });
+
+  it('keeps undecodable sequences as they are', () => {
+    expect(parseQueryParams('bad=%E0%A4%A')['bad']).toBe('%E0%A4%A');
+  });
+});
+
+describe('serializeQueryParams', () => {
+  it('encodes values and repeats keys holding several values', () => {
+    expect(serializeQueryParams({ q: 'a b', tag: ['x', 'y'] })).toBe('q=a%20b&tag=x&tag=y');
+  });
+
+  it('round-trips through parseQueryParams', () => {
+    const params = { q: 'a&b=c', tag: ['1', '2'] };
+
+    expect({ ...parseQueryParams(serializeQueryParams(params)) }).toEqual(params);
+  });
+});
+
+describe('parseUrl', () => {
+  it('splits path, query params and fragment', () => {
+    const tree = parseUrl('/search?q=x#results');
+
+    expect(tree.path).toBe('/search');
+    expect(tree.queryParams['q']).toBe('x');
+    expect(tree.fragment).toBe('results');
+  });
+
+  it('serializes back to the same URL', () => {
+    expect(new UrlTree('/search', { q: 'x' }, 'results').toString()).toBe('/search?q=x#results');
+  });
+});
+
+describe('parseOutlets', () => {
+  it('reads the paths of named outlets', () => {
+    expect(parseOutlets('/inbox(sidebar:chat/42//modal:help)')).toEqual({
+      primary: '/inbox',
+      outlets: { sidebar: 'chat/42', modal: 'help' },
+    });
+  });
+
+  it('leaves parentheses that do not name outlets in the path', () => {
+    expect(parseOutlets('/wiki/Set_(mathematics)')).toEqual({ primary: '/wiki/Set_(mathematics)', outlets: {} });
+  });
+
+  it('round-trips through serializeOutlets', () => {
+    expect(serializeOutlets('/inbox', { sidebar: 'chat/42', modal: 'help' })).toBe('/inbox(sidebar:chat/42//modal:help)');
+    expect(serializeOutlets('/', { sidebar: 'x' })).toBe('/(sidebar:x)');
+  });
+});
@@ -0,0 +1,110 @@
+// Query params; keys repeated in the query string hold every value in order
+export type QueryParams = Record<string, string | string[]>;
+
+// Structured URL: a path plus query params and fragment, also used as a redirect target by guards and resolvers
+export class UrlTree {
+  constructor(
+    public readonly path: string,
+    public readonly queryParams: QueryParams = {},
+    public readonly fragment?: string
+  ) {}
+
+  // Serialize to the URL the router navigates to
+  toString(): string {
+    const query = serializeQueryParams(this.queryParams);
+    const fragment = this.fragment !== undefined ? `#${encodeURI(this.fragment)}` : '';
+    return `${this.path}${query ? `?${query}` : ''}${fragment}`;
+  }
+}
+
+// A guard either lets the navigation through, blocks it, or redirects it to a path or UrlTree
+export type GuardResult = boolean | string | UrlTree;
+
+// Whether a guard result asks for a redirect
+export function isRedirect(result: GuardResult): result is string | UrlTree {
+  return typeof result === 'string' || result instanceof UrlTree;
+}
+
+// Split a router URL into path, query params and fragment
+export function parseUrl(url: string): UrlTree {
+  const hashIndex = url.indexOf('#');
+  const fragment = hashIndex >= 0 ? safeDecode(url.slice(hashIndex + 1)) : undefined;
+  const beforeHash = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+
+  const queryIndex = beforeHash.indexOf('?');
+  const path = queryIndex >= 0 ? beforeHash.slice(0, queryIndex) : beforeHash;
+  const queryParams = queryIndex >= 0 ? parseQueryParams(beforeHash.slice(queryIndex + 1)) : {};
+
+  return new UrlTree(path, queryParams, fragment);
+}
+
+// Split a path into the primary path and the paths of named outlets, e.g. /inbox(sidebar:chat/42//modal:help)
+export function parseOutlets(path: string): { primary: string; outlets: Record<string, string> } {
+  const group = /^(.*?)\(([^()]*)\)$/.exec(path);
+  const parts = group ? group[2].split('//') : [];
+
+  // Parentheses that do not name outlets belong to the path, e.g. /wiki/Set_(mathematics)
+  if (!group || !parts.every((part) => /^\w[\w-]*:/.test(part))) {
+    return { primary: path, outlets: {} };
+  }
+
+  const outlets: Record<string, string> = {};
+  for (const part of parts) {
+    const separator = part.indexOf(':');
+    outlets[part.slice(0, separator)] = part.slice(separator + 1);
+  }
+  return { primary: group[1] || '/', outlets };
+}
+
+// Append the paths of named outlets to the primary path
+export function serializeOutlets(primary: string, outlets: Record<string, string>): string {
+  const parts = Object.entries(outlets).map(([name, path]) => `${name}:${path.replace(/^\/+/, '')}`);
+  return parts.length ? `${primary}(${parts.join('//')})` : primary;
+}
+
+// Parse a query string the way application/x-www-form-urlencoded does
+export function parseQueryParams(query: string): QueryParams {
+  // No prototype, so keys like constructor or __proto__ are plain params
+  const params: QueryParams = Object.create(null);
+
+  for (const pair of query.replace(/^\?/, '').split('&')) {
+    if (!pair) {
+      continue;
+    }
+
+    // Only the first '=' separates key from value
+    const separator = pair.indexOf('=');
+    const key = decodeQueryComponent(separator >= 0 ? pair.slice(0, separator) : pair);
+    const value = separator >= 0 ? decodeQueryComponent(pair.slice(separator + 1)) : '';
+
+    const existing = params[key];
+    if (existing === undefined) {
+      params[key] = value;
+    } else {
+      params[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+  }
+
+  return params;
+}
+
+// Serialize query params, repeating keys that hold several values
+export function serializeQueryParams(params: QueryParams): string {
+  return Object.entries(params)
+    .flatMap(([key, value]) => (Array.isArray(value) ? value : [value]).map((item) => [key, item]))
+    .map(([key, item]) => `${encodeURIComponent(key)}=${encodeURIComponent(item)}`)
+    .join('&');
+}
+
+function decodeQueryComponent(value: string): string {
+  return safeDecode(value.replace(/\+/g, ' '));
+}
+
+// Malformed escapes are kept as they are rather than failing the navigation
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
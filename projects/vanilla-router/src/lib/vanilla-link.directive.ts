@@ -0,0 +1,78 @@
+import { Directive, ElementRef, HostListener, Input, OnChanges, OnDestroy, Renderer2, inject } from '@angular/core';
+import { RouterEventSubscription } from './events';
+import { NavigationExtras, Router } from './router';
+
+// Navigates on click and toggles active classes, e.g. <a vrLink="/users" vrLinkActive="active">
+@Directive({
+  selector: '[vrLink]',
+  standalone: true,
+})
+export class VanillaLink implements OnChanges, OnDestroy {
+  @Input() vrLink: string = '';
+  @Input() queryParams?: NavigationExtras['queryParams'];
+  @Input() queryParamsHandling?: NavigationExtras['queryParamsHandling'];
+  @Input() fragment?: string;
+  @Input() replace: boolean = false;
+  @Input() vrLinkActive: string | string[] = []; // Classes applied while the link is active
+  @Input() vrLinkActiveOptions: { exact: boolean } = { exact: false };
+
+  private router = inject(Router);
+  private renderer = inject(Renderer2);
+  private element: HTMLElement = inject(ElementRef).nativeElement;
+  private subscription: RouterEventSubscription;
+
+  constructor() {
+    this.subscription = this.router.events.subscribe((event) => {
+      if (event.type === 'NavigationEnd') {
+        this._updateActiveClasses();
+      }
+    });
+  }
+
+  ngOnChanges(): void {
+    if (this.element instanceof HTMLAnchorElement) {
+      this.renderer.setAttribute(this.element, 'href', this.router.createHref(this._url()));
+    }
+    this._updateActiveClasses();
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  @HostListener('click', ['$event'])
+  onClick(e: MouseEvent): void {
+    // Let the browser handle new tabs, downloads and modified clicks
+    if (e.button !== 0 || e.ctrlKey || e.metaKey || e.shiftKey || e.altKey || this.element.getAttribute('target') === '_blank') {
+      return;
+    }
+
+    e.preventDefault();
+    this.router.navigate(this.vrLink, {
+      queryParams: this.queryParams,
+      queryParamsHandling: this.queryParamsHandling,
+      fragment: this.fragment,
+      replace: this.replace,
+    });
+  }
+
+  private _url(): string {
+    return this.router.createUrl(this.vrLink, {
+      queryParams: this.queryParams,
+      queryParamsHandling: this.queryParamsHandling,
+      fragment: this.fragment,
+    });
+  }
+
+  private _updateActiveClasses(): void {
+    const classes = (Array.isArray(this.vrLinkActive) ? this.vrLinkActive : this.vrLinkActive.split(' ')).filter(Boolean);
+    const isActive = this.router.isActive(this.vrLink, this.vrLinkActiveOptions.exact);
+    for (const className of classes) {
+      if (isActive) {
+        this.renderer.addClass(this.element, className);
+      } else {
+        this.renderer.removeClass(this.element, className);
+      }
+    }
+  }
+}
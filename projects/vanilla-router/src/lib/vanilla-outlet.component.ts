@@ -0,0 +1,43 @@
+import { Component, ElementRef, HostBinding, Input, OnDestroy, OnInit, inject } from '@angular/core';
+import { ActivatedRoute } from './activated-route';
+import { PRIMARY_OUTLET, ROUTER_OUTLET_ATTRIBUTE } from './outlet';
+import { Router } from './router';
+
+// Marks where routed views render; the outermost one becomes the router's root outlet.
+// A named outlet, e.g. <vanilla-outlet name="sidebar" />, renders the routes of that outlet wherever it is placed.
+@Component({
+  selector: 'vanilla-outlet',
+  standalone: true,
+  template: '',
+})
+export class VanillaOutlet implements OnInit, OnDestroy {
+  @Input() name: string = PRIMARY_OUTLET;
+
+  private router = inject(Router);
+  private element: HTMLElement = inject(ElementRef).nativeElement;
+
+  // Outlets inside a routed view are found by the router through their attribute
+  private isRoot = inject(ActivatedRoute, { optional: true }) === null;
+
+  // Only primary outlets carry the attribute, so a named outlet is never taken for a view's child outlet
+  @HostBinding(`attr.${ROUTER_OUTLET_ATTRIBUTE}`)
+  get outletAttribute(): string | null {
+    return this.name === PRIMARY_OUTLET ? '' : null;
+  }
+
+  ngOnInit(): void {
+    if (this.name !== PRIMARY_OUTLET) {
+      this.router.registerOutlet(this.name, this.element);
+    } else if (this.isRoot) {
+      this.router.setRootElement(this.element);
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.name !== PRIMARY_OUTLET) {
+      this.router.unregisterOutlet(this.name, this.element);
+    } else if (this.isRoot) {
+      this.router.setRootElement(null);
+    }
+  }
+}
@@ -2,5 +2,4 @@
  * Public API Surface of vanilla-router
  */
 
-export * from './lib/vanilla-router.service';
-export * from './lib/vanilla-router.component';
+export * from './lib/index';